@@ -3,7 +3,7 @@
  */
 
 import express from 'express';
-import { ResilientPrismaClient } from '../src';
+import { ResilientPrismaClient, createHttpHandlers } from '../src';
 
 const app = express();
 const prisma = new ResilientPrismaClient({
@@ -18,18 +18,11 @@ const prisma = new ResilientPrismaClient({
   },
 });
 
-// Health check endpoint
-app.get('/health', async (req, res) => {
-  const health = await prisma.healthCheck();
-  const statusCode = health.status === 'healthy' ? 200 : 503;
-  res.status(statusCode).json(health);
-});
-
-// Connection stats endpoint
-app.get('/stats', (req, res) => {
-  const stats = prisma.getConnectionStats();
-  res.json(stats);
-});
+// Liveness, readiness and connection stats endpoints
+const probes = createHttpHandlers(prisma);
+app.get('/livez', probes.liveness);
+app.get('/readyz', probes.readiness);
+app.get('/stats', probes.stats);
 
 // Example API endpoint
 app.get('/api/data', async (req, res) => {
@@ -0,0 +1,81 @@
+/**
+ * Bulkhead - Concurrency limit with its own wait queue
+ */
+
+import type { BulkheadStats } from './types';
+import { WaitQueue } from './WaitQueue';
+import { BulkheadRejectedError } from './errors';
+
+export interface BulkheadOptions {
+  maxConcurrent: number;
+  maxQueueSize: number;
+  queueTimeoutMs: number;
+}
+
+/**
+ * Bulkhead limiting how many operations run at once
+ *
+ * Operations over `maxConcurrent` wait in a bounded queue and are rejected with
+ * BulkheadRejectedError when the queue is full or after `queueTimeoutMs`.
+ * A released slot is handed directly to the next waiting operation.
+ */
+export class Bulkhead {
+  private active: number = 0;
+  private saturations: number = 0;
+  private queue: WaitQueue;
+
+  constructor(
+    public readonly name: string,
+    private readonly options: BulkheadOptions,
+    private readonly onSaturated: (name: string, operation: string) => void
+  ) {
+    this.queue = new WaitQueue(
+      { maxSize: options.maxQueueSize, maxWaitMs: options.queueTimeoutMs, order: 'priority' },
+      (operation, reason, waitedMs) => new BulkheadRejectedError(name, operation, reason, waitedMs)
+    );
+  }
+
+  /**
+   * Wait for a slot
+   * Every successful acquire must be paired with release()
+   */
+  public async acquire(operation: string, priority: number = 0): Promise<void> {
+    if (this.active < this.options.maxConcurrent) {
+      this.active++;
+      return;
+    }
+
+    if (this.queue.getDepth() === 0) {
+      this.saturations++;
+      this.onSaturated(this.name, operation);
+    }
+
+    // The slot is handed over by release(), so active stays unchanged
+    await this.queue.enqueue(operation, priority);
+  }
+
+  /**
+   * Free a slot, handing it to the next waiting operation if any
+   */
+  public release(): void {
+    if (!this.queue.releaseNext()) {
+      this.active--;
+    }
+  }
+
+  /**
+   * Get bulkhead statistics
+   */
+  public getStats(): BulkheadStats {
+    const queue = this.queue.getStats();
+    return {
+      active: this.active,
+      maxConcurrent: this.options.maxConcurrent,
+      queued: queue.depth,
+      saturations: this.saturations,
+      rejections: queue.rejections,
+      averageWaitMs: queue.averageWaitMs,
+      maxWaitMs: queue.maxWaitMs,
+    };
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * CircuitBreaker - Fail fast while the database is unreachable
+ */
+
+import type { CircuitState, ResilientConfig } from './types';
+
+export type CircuitBreakerOptions = Required<Omit<NonNullable<ResilientConfig['circuitBreaker']>, 'enabled'>>;
+
+/**
+ * Permit handed out for every request the breaker lets through
+ */
+export interface CircuitPermit {
+  /**
+   * Whether the request was admitted as a half-open trial
+   */
+  trial: boolean;
+}
+
+/**
+ * Circuit breaker with closed, open and half-open states
+ *
+ * Opens after `failureThreshold` consecutive failures, or when the failure rate
+ * over the last `windowSize` outcomes reaches `failureRateThreshold`.
+ * After `cooldownMs` it admits up to `halfOpenMaxRequests` trial requests;
+ * the circuit closes once they all succeed and reopens on any trial failure.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures: number = 0;
+  private outcomes: boolean[] = []; // true = failure
+  private openedAt: number = 0;
+  private trialsInFlight: number = 0;
+  private trialSuccesses: number = 0;
+  private totalOpens: number = 0;
+
+  constructor(
+    private readonly options: CircuitBreakerOptions,
+    private readonly onStateChange: (state: CircuitState) => void
+  ) {}
+
+  /**
+   * Request permission to run an operation
+   * @returns a permit, or null when the request must fail fast
+   */
+  public acquire(): CircuitPermit | null {
+    if (this.state === 'open') {
+      if (this.getRetryAfterMs() > 0) {
+        return null;
+      }
+      this.transition('half-open');
+    }
+
+    if (this.state === 'half-open') {
+      if (this.trialsInFlight + this.trialSuccesses >= this.options.halfOpenMaxRequests) {
+        return null;
+      }
+      this.trialsInFlight++;
+      return { trial: true };
+    }
+
+    return { trial: false };
+  }
+
+  /**
+   * Record a successful operation
+   */
+  public onSuccess(permit: CircuitPermit): void {
+    if (permit.trial) {
+      if (this.state !== 'half-open') {
+        return;
+      }
+      this.trialsInFlight--;
+      this.trialSuccesses++;
+      if (this.trialSuccesses >= this.options.halfOpenMaxRequests) {
+        this.transition('closed');
+      }
+      return;
+    }
+
+    this.consecutiveFailures = 0;
+    this.recordOutcome(false);
+  }
+
+  /**
+   * Record a failed operation
+   */
+  public onFailure(permit: CircuitPermit): void {
+    if (permit.trial) {
+      if (this.state === 'half-open') {
+        this.transition('open');
+      }
+      return;
+    }
+
+    if (this.state !== 'closed') {
+      return;
+    }
+
+    this.consecutiveFailures++;
+    this.recordOutcome(true);
+
+    if (this.consecutiveFailures >= this.options.failureThreshold || this.isFailureRateExceeded()) {
+      this.transition('open');
+    }
+  }
+
+  /**
+   * Current circuit state
+   */
+  public getState(): CircuitState {
+    // Surface the cooldown expiry without waiting for the next request
+    if (this.state === 'open' && this.getRetryAfterMs() === 0) {
+      this.transition('half-open');
+    }
+    return this.state;
+  }
+
+  /**
+   * Milliseconds remaining until the open circuit admits trial requests
+   */
+  public getRetryAfterMs(): number {
+    if (this.state !== 'open') {
+      return 0;
+    }
+    return Math.max(0, this.openedAt + this.options.cooldownMs - Date.now());
+  }
+
+  /**
+   * Number of times the circuit has opened since start
+   */
+  public getTotalOpens(): number {
+    return this.totalOpens;
+  }
+
+  private recordOutcome(failed: boolean): void {
+    this.outcomes.push(failed);
+    if (this.outcomes.length > this.options.windowSize) {
+      this.outcomes.shift();
+    }
+  }
+
+  private isFailureRateExceeded(): boolean {
+    if (this.outcomes.length < this.options.minimumRequests) {
+      return false;
+    }
+    const failures = this.outcomes.filter((failed) => failed).length;
+    return failures / this.outcomes.length >= this.options.failureRateThreshold;
+  }
+
+  private transition(state: CircuitState): void {
+    if (this.state === state) {
+      return;
+    }
+
+    this.state = state;
+    this.trialsInFlight = 0;
+    this.trialSuccesses = 0;
+
+    if (state === 'open') {
+      this.openedAt = Date.now();
+      this.totalOpens++;
+    } else if (state === 'closed') {
+      this.consecutiveFailures = 0;
+      this.outcomes = [];
+    }
+
+    this.onStateChange(state);
+  }
+}
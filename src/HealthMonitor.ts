@@ -0,0 +1,99 @@
+/**
+ * HealthMonitor - Health state machine with hysteresis
+ */
+
+import type { HealthHistoryEntry, HealthState, ResilientConfig } from './types';
+
+export type HealthMonitorOptions = Required<
+  Pick<
+    NonNullable<ResilientConfig['healthCheck']>,
+    'degradedThreshold' | 'unhealthyThreshold' | 'recoveryThreshold' | 'historySize'
+  >
+>;
+
+/**
+ * Health state machine with healthy, degraded and unhealthy states
+ *
+ * Becomes degraded after `degradedThreshold` consecutive failed checks and unhealthy
+ * after `unhealthyThreshold`; returns to healthy only after `recoveryThreshold`
+ * consecutive passed checks, so a single slow or failed probe does not flap the state.
+ * The last `historySize` checks are kept in a ring buffer.
+ */
+export class HealthMonitor {
+  private state: HealthState = 'healthy';
+  private lastStateChange: number = Date.now();
+  private consecutiveFailures: number = 0;
+  private consecutiveSuccesses: number = 0;
+  private history: HealthHistoryEntry[] = [];
+  private historyStart: number = 0;
+
+  constructor(private readonly options: HealthMonitorOptions) {}
+
+  /**
+   * Record a check result and apply the thresholds
+   * Compare getState() before and after to detect a state change
+   */
+  public record(entry: HealthHistoryEntry): void {
+    this.addToHistory(entry);
+
+    if (entry.status === 'healthy') {
+      this.consecutiveFailures = 0;
+      this.consecutiveSuccesses++;
+      if (this.state !== 'healthy' && this.consecutiveSuccesses >= this.options.recoveryThreshold) {
+        this.transition('healthy');
+      }
+      return;
+    }
+
+    this.consecutiveSuccesses = 0;
+    this.consecutiveFailures++;
+    if (this.consecutiveFailures >= this.options.unhealthyThreshold) {
+      this.transition('unhealthy');
+    } else if (this.state === 'healthy' && this.consecutiveFailures >= this.options.degradedThreshold) {
+      this.transition('degraded');
+    }
+  }
+
+  /**
+   * Current health state
+   */
+  public getState(): HealthState {
+    return this.state;
+  }
+
+  /**
+   * When the state last changed, in milliseconds since the epoch
+   */
+  public getLastStateChange(): number {
+    return this.lastStateChange;
+  }
+
+  /**
+   * Recent checks, oldest first
+   */
+  public getHistory(): HealthHistoryEntry[] {
+    return [...this.history.slice(this.historyStart), ...this.history.slice(0, this.historyStart)];
+  }
+
+  private addToHistory(entry: HealthHistoryEntry): void {
+    if (this.history.length < this.options.historySize) {
+      this.history.push(entry);
+      return;
+    }
+    if (this.options.historySize <= 0) {
+      return;
+    }
+    // Overwrite the oldest entry
+    this.history[this.historyStart] = entry;
+    this.historyStart = (this.historyStart + 1) % this.options.historySize;
+  }
+
+  private transition(state: HealthState): void {
+    if (this.state === state) {
+      return;
+    }
+
+    this.state = state;
+    this.lastStateChange = Date.now();
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * LatencyWindow - Streaming latency percentiles over a sliding time window
+ */
+
+import type { LatencyPercentiles } from './types';
+
+export interface LatencyWindowOptions {
+  windowMs: number;
+  segments: number;
+}
+
+// Bins grow by 5%, so an estimate is within about 2.5% of the recorded value
+const GAMMA = 1.05;
+const LOG_GAMMA = Math.log(GAMMA);
+
+interface Segment {
+  epoch: number;
+  count: number;
+  min: number;
+  max: number;
+  zeros: number;
+  bins: Map<number, number>;
+}
+
+/**
+ * Sliding window of durations with log-scaled bins
+ *
+ * The window is a ring of `segments` segments, each covering `windowMs / segments`;
+ * a segment is cleared when the window moves past it. Each segment keeps one counter
+ * per occupied bin, so memory stays bounded by the number of segments times the
+ * bins needed to span the recorded range (about 310 bins from 1ms to an hour),
+ * however many durations are recorded.
+ */
+export class LatencyWindow {
+  private readonly segmentMs: number;
+  private readonly segments: Array<Segment | undefined>;
+
+  constructor(private readonly options: LatencyWindowOptions) {
+    this.segmentMs = Math.max(1, options.windowMs / options.segments);
+    this.segments = new Array(options.segments);
+  }
+
+  /**
+   * Record a duration in milliseconds
+   */
+  public record(durationMs: number, now: number = Date.now()): void {
+    const epoch = Math.floor(now / this.segmentMs);
+    const slot = epoch % this.options.segments;
+    let segment = this.segments[slot];
+    if (!segment || segment.epoch !== epoch) {
+      segment = { epoch, count: 0, min: Infinity, max: 0, zeros: 0, bins: new Map() };
+      this.segments[slot] = segment;
+    }
+
+    segment.count++;
+    segment.min = Math.min(segment.min, durationMs);
+    segment.max = Math.max(segment.max, durationMs);
+    if (durationMs <= 0) {
+      segment.zeros++;
+    } else {
+      const bin = Math.ceil(Math.log(durationMs) / LOG_GAMMA);
+      segment.bins.set(bin, (segment.bins.get(bin) ?? 0) + 1);
+    }
+  }
+
+  /**
+   * Percentiles of the durations recorded within the window
+   */
+  public getPercentiles(now: number = Date.now()): LatencyPercentiles {
+    const oldestEpoch = Math.floor(now / this.segmentMs) - this.options.segments + 1;
+    const live = this.segments.filter((segment): segment is Segment => !!segment && segment.epoch >= oldestEpoch);
+
+    let count = 0;
+    let zeros = 0;
+    let min = Infinity;
+    let max = 0;
+    const bins = new Map<number, number>();
+    for (const segment of live) {
+      count += segment.count;
+      zeros += segment.zeros;
+      min = Math.min(min, segment.min);
+      max = Math.max(max, segment.max);
+      for (const [bin, binCount] of segment.bins) {
+        bins.set(bin, (bins.get(bin) ?? 0) + binCount);
+      }
+    }
+    if (count === 0) {
+      return { count: 0, p50: 0, p95: 0, p99: 0, max: 0 };
+    }
+
+    const sorted = [...bins.entries()].sort(([a], [b]) => a - b);
+    const percentile = (q: number): number => {
+      const rank = Math.max(1, Math.ceil(q * count));
+      // The first and last ranks are the recorded extremes, not bin estimates
+      if (rank >= count) {
+        return max;
+      }
+      if (rank === 1) {
+        return min;
+      }
+      if (rank <= zeros) {
+        return 0;
+      }
+      let seen = zeros;
+      for (const [bin, binCount] of sorted) {
+        seen += binCount;
+        if (seen >= rank) {
+          // Midpoint of the bin, never outside the recorded range
+          const estimate = (2 * Math.pow(GAMMA, bin)) / (GAMMA + 1);
+          return Math.min(max, Math.max(min, estimate));
+        }
+      }
+      return max;
+    };
+
+    return { count, p50: percentile(0.5), p95: percentile(0.95), p99: percentile(0.99), max };
+  }
+}
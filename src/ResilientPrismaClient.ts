@@ -4,6 +4,7 @@
 
 import { PrismaClient } from '@prisma/client';
 import { EventEmitter } from 'events';
+import { AsyncLocalStorage } from 'async_hooks';
 import type {
   ResilientConfig,
   ConnectionStats,
@@ -11,21 +12,66 @@ import type {
   Logger,
   ErrorContext,
   ResilientPrismaEvents,
+  RefreshMode,
+  RefreshResult,
+  CircuitState,
+  DatabaseProvider,
+  ErrorClassification,
+  CallOptions,
+  BulkheadStats,
+  ShutdownResult,
+  ShutdownHandlerOptions,
+  PauseOptions,
+  HealthProbe,
+  HealthState,
+  OperationOutcome,
+  OperationResult,
+  OperationStats,
+  TraceSpan,
 } from './types';
+import { CircuitBreaker } from './CircuitBreaker';
+import { HealthMonitor } from './HealthMonitor';
+import { WaitQueue } from './WaitQueue';
+import { Bulkhead } from './Bulkhead';
+import { RetryBudget } from './RetryBudget';
+import { Tracing } from './Tracing';
+import { LatencyWindow } from './LatencyWindow';
 import {
-  isRetryableError,
-  getErrorMessage,
-  calculateBackoff,
+  BulkheadRejectedError,
+  CircuitOpenError,
+  HardResetError,
+  OperationAbortedError,
+  PausedError,
+  QueueRejectedError,
+  QueryTimeoutError,
+  ReconnectFailedError,
+  ShutdownError,
+  StartupError,
+} from './errors';
+import type { ResilientPrismaErrorDetails } from './errors';
+import {
+  createErrorClassifier,
+  createResilientPromise,
+  isAmbiguousFailure,
+  isRetrySafe,
+  isReadOperation,
+  isWithinMaintenanceWindow,
+  parseMaintenanceWindows,
+  getOperationPatterns,
+  createBackoffPolicy,
   sleep,
   getHeapUsagePercent,
   getMemoryInfo,
   triggerGC,
+  getDatabaseProbe,
+  runHealthProbe,
 } from './utils';
+import type { ErrorClassifier, ParsedMaintenanceWindow } from './utils';
 
 /**
  * Default configuration
  */
-const DEFAULT_CONFIG: Required<Omit<ResilientConfig, 'onError'>> = {
+const DEFAULT_CONFIG: Required<Omit<ResilientConfig, 'onError' | 'provider'>> = {
   reconnect: {
     maxAttempts: 3,
     initialDelay: 1000,
@@ -35,9 +81,23 @@ const DEFAULT_CONFIG: Required<Omit<ResilientConfig, 'onError'>> = {
     maxConsecutiveErrors: 10,
     maxConnectionAge: 18 * 60 * 60 * 1000, // 18 hours
   },
+  startup: {
+    mode: 'fail-fast',
+    timeoutMs: 30 * 1000, // 30 seconds
+  },
+  shutdown: {
+    gracePeriodMs: 10 * 1000, // 10 seconds
+  },
   refresh: {
     enabled: true,
     intervalMs: 5 * 60 * 1000, // 5 minutes
+    mode: 'reconnect',
+    activityWindowMs: 60 * 1000, // 1 minute
+    idleTimeoutMs: 30 * 1000, // 30 seconds
+  },
+  maintenance: {
+    windows: [],
+    timezone: 'local',
   },
   memory: {
     autoGC: true,
@@ -46,20 +106,120 @@ const DEFAULT_CONFIG: Required<Omit<ResilientConfig, 'onError'>> = {
   healthCheck: {
     enabled: true,
     intervalMs: 60 * 1000, // 1 minute
+    timeoutMs: 5 * 1000, // 5 seconds
+    probes: [],
+    degradedThreshold: 1,
+    unhealthyThreshold: 3,
+    recoveryThreshold: 2,
+    historySize: 10,
+    recoveryAction: 'none',
+  },
+  circuitBreaker: {
+    enabled: false,
+    failureThreshold: 5,
+    failureRateThreshold: 0.5,
+    minimumRequests: 10,
+    windowSize: 20,
+    cooldownMs: 30 * 1000, // 30 seconds
+    halfOpenMaxRequests: 1,
+  },
+  retryPolicy: {
+    retryNonIdempotent: false,
+    overrides: {},
+  },
+  transaction: {
+    maxAttempts: 3,
+    initialDelay: 50,
+    maxDelay: 1000,
+    backoff: 'exponential',
+  },
+  hardReset: {
+    drainTimeoutMs: 30 * 1000, // 30 seconds
+  },
+  timeout: {
+    defaultMs: Infinity,
+  },
+  poolExhaustion: {
+    maxRetries: 3,
+    initialDelay: 50,
+    maxDelay: 1000,
+    backoff: 'full-jitter',
+    reconnectAfterMs: 60 * 1000, // 1 minute
+  },
+  retryBudget: {
+    enabled: false,
+    ratio: 0.2,
+    minRetriesPerSecond: 10,
+    maxTokens: 100,
+  },
+  queue: {
+    enabled: true,
+    maxSize: 1000,
+    maxWaitMs: 30 * 1000, // 30 seconds
+    order: 'fifo',
+  },
+  bulkhead: {
+    enabled: false,
+    maxConcurrent: Infinity,
+    maxQueueSize: 100,
+    queueTimeoutMs: 10 * 1000, // 10 seconds
+    groups: {},
   },
+  errorRules: [],
   logging: {
     level: 'info',
     logger: console,
   },
+  operationStats: {
+    enabled: true,
+    windowMs: 60 * 1000, // 1 minute
+    segments: 6,
+  },
+  tracing: {
+    enabled: true,
+    tracerName: 'prisma-resilient-client',
+  },
+};
+
+/**
+ * Call options of a running operation, with its absolute deadline and progress
+ * Created by executeWithReconnect for every operation and shared by all of its attempts
+ */
+type ScopedCallOptions = CallOptions & {
+  deadline?: number;
+  startedAt?: number;
+  attempts?: number;
+  lastError?: unknown;
+  span?: TraceSpan;
 };
 
+/**
+ * Counters and latency window of one operation, for getOperationStats()
+ */
+type OperationRecord = Omit<OperationStats, 'latency'> & { latency: LatencyWindow };
+
+/**
+ * Raw client methods that return a PrismaPromise
+ */
+const PRISMA_PROMISE_METHODS = [
+  '$queryRaw',
+  '$queryRawUnsafe',
+  '$queryRawTyped',
+  '$executeRaw',
+  '$executeRawUnsafe',
+  '$runCommandRaw',
+];
+
 /**
  * ResilientPrismaClient with automatic reconnection and connection management
  */
 export class ResilientPrismaClient extends EventEmitter {
   private prisma: PrismaClient;
   private prismaFactory: (() => PrismaClient) | null = null;
-  private config: Required<Omit<ResilientConfig, 'onError'>> & Pick<ResilientConfig, 'onError'>;
+  private config: Required<Omit<ResilientConfig, 'onError' | 'provider'>> &
+    Pick<ResilientConfig, 'onError' | 'provider'>;
+  private classifyError: ErrorClassifier;
+  private databaseProbe: HealthProbe;
   private logger: Logger;
 
   // Connection state
@@ -72,6 +232,68 @@ export class ResilientPrismaClient extends EventEmitter {
   private connectionCreatedAt: Date = new Date();
   private queryCount: number = 0;
   private errorCount: number = 0;
+  private transactionRetries: number = 0;
+  private connectionGeneration: number = 0;
+  private lastOperationSuccessAt: number = 0;
+  private poolExhaustedCount: number = 0;
+  private totalTimeouts: number = 0;
+  private poolExhaustedSince: number | null = null;
+
+  // First connection, settled once startup succeeds or gives up
+  private readyPromise: Promise<void>;
+  private starting: boolean = true;
+
+  // Graceful shutdown: set once, aborting the reconnect loop's backoff sleeps
+  private shutdownPromise: Promise<ShutdownResult> | null = null;
+  private shutdownController = new AbortController();
+
+  // Operations between executeWithReconnect() and their result, for draining on shutdown
+  private activeOperations: number = 0;
+  private idleWaiter: (() => void) | null = null;
+
+  // Single-flight recovery shared by all concurrent callers
+  private recoveryPromise: Promise<void> | null = null;
+
+  // In-flight operations per PrismaClient instance, for draining after a hard reset
+  private inFlight = new Map<PrismaClient, number>();
+  private drainWaiters = new Map<PrismaClient, () => void>();
+  private retiredClients = new Set<PrismaClient>();
+
+  // Circuit breaker
+  private circuitBreaker: CircuitBreaker;
+
+  // Health state derived from consecutive health checks
+  private healthMonitor: HealthMonitor;
+
+  // Operations waiting for a reconnect
+  private waitQueue: WaitQueue;
+
+  // Planned maintenance: set by pause(), with the operations held until resume()
+  private pauseState: Required<Omit<PauseOptions, 'maxWaitMs'>> | null = null;
+  private pauseQueue: WaitQueue | null = null;
+
+  // Maintenance windows parsed once, so a typo fails the constructor instead of every refresh
+  private maintenanceWindows: ParsedMaintenanceWindow[];
+
+  // Counts, errors, retries and latency per operation name
+  private operationStats = new Map<string, OperationRecord>();
+
+  // Spans for operations and recoveries, a no-op without OpenTelemetry
+  private tracing: Tracing;
+  private provider: DatabaseProvider | undefined;
+
+  // Caps query retries to a fraction of normal traffic
+  private retryBudget: RetryBudget;
+
+  // Bulkheads: the global limit and one per operation group, in config order
+  private globalBulkhead: Bulkhead;
+  private groupBulkheads: Array<{ bulkhead: Bulkhead; operations: string[] }>;
+
+  // Stable handle returned by getClient()
+  private clientHandle: PrismaClient | null = null;
+
+  // Per-call options set through withOptions()
+  private callContext = new AsyncLocalStorage<ScopedCallOptions>();
 
   // Timers
   private refreshTimer: NodeJS.Timeout | null = null;
@@ -101,38 +323,164 @@ export class ResilientPrismaClient extends EventEmitter {
     this.config = {
       ...DEFAULT_CONFIG,
       ...resilientConfig,
+      startup: { ...DEFAULT_CONFIG.startup, ...resilientConfig?.startup },
+      shutdown: { ...DEFAULT_CONFIG.shutdown, ...resilientConfig?.shutdown },
       reconnect: { ...DEFAULT_CONFIG.reconnect, ...resilientConfig?.reconnect },
       refresh: { ...DEFAULT_CONFIG.refresh, ...resilientConfig?.refresh },
+      maintenance: { ...DEFAULT_CONFIG.maintenance, ...resilientConfig?.maintenance },
       memory: { ...DEFAULT_CONFIG.memory, ...resilientConfig?.memory },
       healthCheck: { ...DEFAULT_CONFIG.healthCheck, ...resilientConfig?.healthCheck },
+      circuitBreaker: { ...DEFAULT_CONFIG.circuitBreaker, ...resilientConfig?.circuitBreaker },
+      retryPolicy: { ...DEFAULT_CONFIG.retryPolicy, ...resilientConfig?.retryPolicy },
+      transaction: { ...DEFAULT_CONFIG.transaction, ...resilientConfig?.transaction },
+      hardReset: { ...DEFAULT_CONFIG.hardReset, ...resilientConfig?.hardReset },
+      timeout: { ...DEFAULT_CONFIG.timeout, ...resilientConfig?.timeout },
+      poolExhaustion: { ...DEFAULT_CONFIG.poolExhaustion, ...resilientConfig?.poolExhaustion },
+      retryBudget: { ...DEFAULT_CONFIG.retryBudget, ...resilientConfig?.retryBudget },
+      queue: { ...DEFAULT_CONFIG.queue, ...resilientConfig?.queue },
+      bulkhead: { ...DEFAULT_CONFIG.bulkhead, ...resilientConfig?.bulkhead },
       logging: { ...DEFAULT_CONFIG.logging, ...resilientConfig?.logging },
+      operationStats: { ...DEFAULT_CONFIG.operationStats, ...resilientConfig?.operationStats },
+      tracing: { ...DEFAULT_CONFIG.tracing, ...resilientConfig?.tracing },
+      errorRules: resilientConfig?.errorRules || [],
       onError: resilientConfig?.onError,
     };
 
+    this.maintenanceWindows = parseMaintenanceWindows(this.config.maintenance.windows ?? []);
+
     this.logger = this.config.logging.logger || console;
 
-    // Initialize connection
-    this.initialize();
+    const provider = this.config.provider || ((this.prisma as any)._activeProvider as DatabaseProvider | undefined);
+    this.classifyError = createErrorClassifier({
+      provider,
+      rules: this.config.errorRules,
+    });
+    this.databaseProbe = getDatabaseProbe(provider);
+    this.provider = provider;
+    this.tracing = new Tracing(this.config.tracing);
+
+    this.healthMonitor = new HealthMonitor({
+      degradedThreshold: this.config.healthCheck.degradedThreshold ?? 1,
+      unhealthyThreshold: this.config.healthCheck.unhealthyThreshold ?? 3,
+      recoveryThreshold: this.config.healthCheck.recoveryThreshold ?? 2,
+      historySize: this.config.healthCheck.historySize ?? 10,
+    });
+
+    this.circuitBreaker = new CircuitBreaker(
+      this.config.circuitBreaker as Required<NonNullable<ResilientConfig['circuitBreaker']>>,
+      (state) => this.onCircuitStateChange(state)
+    );
+
+    this.waitQueue = new WaitQueue(
+      this.config.queue as Required<Omit<NonNullable<ResilientConfig['queue']>, 'enabled'>>
+    );
+
+    this.retryBudget = new RetryBudget(
+      this.config.retryBudget as Required<Omit<NonNullable<ResilientConfig['retryBudget']>, 'enabled'>>
+    );
+
+    const bulkhead = this.config.bulkhead;
+    const onSaturated = (name: string, operation: string) => {
+      this.log('warn', `Bulkhead "${name}" saturated, queueing ${operation}`);
+      this.emit('bulkhead:saturated', name, operation);
+    };
+    this.globalBulkhead = new Bulkhead(
+      'global',
+      {
+        maxConcurrent: bulkhead.maxConcurrent ?? Infinity,
+        maxQueueSize: bulkhead.maxQueueSize ?? 100,
+        queueTimeoutMs: bulkhead.queueTimeoutMs ?? 10000,
+      },
+      onSaturated
+    );
+    this.groupBulkheads = Object.entries(bulkhead.groups || {}).map(([name, group]) => ({
+      operations: group.operations,
+      bulkhead: new Bulkhead(
+        name,
+        {
+          maxConcurrent: group.maxConcurrent,
+          maxQueueSize: group.maxQueueSize ?? bulkhead.maxQueueSize ?? 100,
+          queueTimeoutMs: group.queueTimeoutMs ?? bulkhead.queueTimeoutMs ?? 10000,
+        },
+        onSaturated
+      ),
+    }));
+
+    // Initialize connection; a failure is reported through ready(), never as an unhandled rejection
+    this.readyPromise = this.initialize();
+    this.readyPromise.catch((error) => {
+      this.log('error', 'Failed to initialize:', error);
+    });
+  }
+
+  /**
+   * Create a ResilientPrismaClient and wait for its first connection
+   * Rejects with StartupError according to `startup.mode`, after shutting the client down
+   * @param prismaClientOrFactory - PrismaClient instance or factory function
+   * @param resilientConfig - Configuration options
+   */
+  public static async create(
+    prismaClientOrFactory: PrismaClient | (() => PrismaClient),
+    resilientConfig?: ResilientConfig
+  ): Promise<ResilientPrismaClient> {
+    const client = new ResilientPrismaClient(prismaClientOrFactory, resilientConfig);
+    try {
+      await client.ready();
+    } catch (error) {
+      await client.shutdown();
+      throw error;
+    }
+    return client;
   }
 
   /**
    * Initialize connection and start background tasks
    */
   private async initialize(): Promise<void> {
+    // Start background tasks first, so the client can recover even if the first connect fails
+    if (this.config.refresh.enabled) {
+      this.startPeriodicRefresh();
+    }
+    if (this.config.healthCheck.enabled) {
+      this.startHealthChecks();
+    }
+
     try {
-      await this.connect();
+      await this.connectOnStartup();
+    } finally {
+      this.starting = false;
+    }
+  }
 
-      // Start periodic refresh
-      if (this.config.refresh.enabled) {
-        this.startPeriodicRefresh();
-      }
+  /**
+   * Establish the first connection according to the startup mode
+   */
+  private async connectOnStartup(): Promise<void> {
+    const startTime = Date.now();
+    const { mode, timeoutMs = 30000 } = this.config.startup;
+    const backoff = createBackoffPolicy(
+      this.config.reconnect.backoff || 'exponential',
+      this.config.reconnect.initialDelay || 1000,
+      this.config.reconnect.maxDelay || 10000
+    );
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.connect();
+        return;
+      } catch (error) {
+        const elapsedMs = Date.now() - startTime;
+        if (mode !== 'wait' || elapsedMs >= timeoutMs) {
+          throw new StartupError({ attempts: attempt, elapsedMs, cause: error });
+        }
 
-      // Start health checks
-      if (this.config.healthCheck.enabled) {
-        this.startHealthChecks();
+        const delay = Math.min(backoff.next(), timeoutMs - elapsedMs);
+        this.log('warn', `Database not reachable yet, retrying in ${delay}ms (attempt ${attempt})`);
+        await sleep(delay, this.shutdownController.signal);
+        if (this.shutdownController.signal.aborted) {
+          throw new StartupError({ attempts: attempt, elapsedMs: Date.now() - startTime, cause: error });
+        }
       }
-    } catch (error) {
-      this.log('error', 'Failed to initialize:', error);
     }
   }
 
@@ -143,6 +491,7 @@ export class ResilientPrismaClient extends EventEmitter {
     try {
       await this.prisma.$connect();
       this.connected = true;
+      this.connectionGeneration++;
       this.lastSuccessfulConnection = new Date();
       this.reconnectAttempts = 0;
       this.emit('connect');
@@ -175,36 +524,36 @@ export class ResilientPrismaClient extends EventEmitter {
    */
   private async hardReset(): Promise<void> {
     if (!this.prismaFactory) {
-      throw new Error(
-        'Hard reset not available: PrismaClient factory function not provided. ' +
-        'Please pass a factory function to the constructor to enable hard reset.'
-      );
+      throw new HardResetError('no-factory');
     }
 
     this.log('warn', '🔄 Performing hard reset (recreating PrismaClient)...');
+    const startTime = Date.now();
 
+    // Build, connect and warm up the new instance while the old one keeps serving
+    const newPrisma = this.prismaFactory();
     try {
-      // Disconnect old instance
-      await this.prisma.$disconnect();
+      await newPrisma.$connect();
+      if (this.config.hardReset.warmup) {
+        await this.config.hardReset.warmup(newPrisma);
+      }
     } catch (error) {
-      this.log('warn', 'Error disconnecting old PrismaClient:', error);
+      await this.discardClient(newPrisma, 'after failed hard reset');
+      throw new HardResetError('connect-failed', { attempts: 1, elapsedMs: Date.now() - startTime, cause: error });
     }
 
-    // Clear reference to old instance (allow GC)
-    this.prisma = null as any;
-
-    // Force garbage collection if available
-    if (this.config.memory.autoGC) {
-      triggerGC();
+    // Shutdown no longer waits for this reset, so it must not swap in a client nobody disconnects
+    if (this.shutdownController.signal.aborted) {
+      await this.discardClient(newPrisma, 'after shutdown started');
+      throw new ShutdownError('hard-reset');
     }
 
-    // Create new PrismaClient instance
-    this.prisma = this.prismaFactory();
+    // Swap atomically: from here on every operation uses the new instance
+    const oldPrisma = this.prisma;
+    this.prisma = newPrisma;
     this.connectionCreatedAt = new Date();
-
-    // Connect new instance
-    await this.prisma.$connect();
     this.connected = true;
+    this.connectionGeneration++;
     this.lastSuccessfulConnection = new Date();
     this.reconnectAttempts = 0;
     this.consecutiveErrors = 0;
@@ -212,14 +561,152 @@ export class ResilientPrismaClient extends EventEmitter {
 
     this.emit('hard-reset');
     this.log('info', `✅ Hard reset successful (total: ${this.totalHardResets})`);
+
+    // Retire the old instance once its in-flight operations drain
+    this.retiredClients.add(oldPrisma);
+    this.drainAndDisconnect(oldPrisma).catch((error) => {
+      this.log('warn', 'Error disconnecting old PrismaClient:', error);
+    });
+  }
+
+  /**
+   * Disconnect a PrismaClient that never served operations, logging instead of throwing
+   */
+  private async discardClient(prisma: PrismaClient, context: string): Promise<void> {
+    try {
+      await prisma.$disconnect();
+    } catch (error) {
+      this.log('warn', `Error disconnecting new PrismaClient ${context}:`, error);
+    }
+  }
+
+  /**
+   * Wait for a retired PrismaClient's in-flight operations, then disconnect it
+   */
+  private async drainAndDisconnect(prisma: PrismaClient): Promise<void> {
+    const drainTimeoutMs = this.config.hardReset.drainTimeoutMs ?? 30000;
+
+    if (this.getInFlight(prisma) > 0) {
+      this.log('debug', `Draining ${this.getInFlight(prisma)} in-flight operation(s) from old PrismaClient...`);
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(() => {
+          this.drainWaiters.delete(prisma);
+          resolve();
+        }, drainTimeoutMs);
+        this.drainWaiters.set(prisma, () => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
+    }
+
+    const remaining = this.getInFlight(prisma);
+    if (remaining > 0) {
+      this.log('warn', `Drain timeout: disconnecting old PrismaClient with ${remaining} operation(s) in flight`);
+    }
+
+    try {
+      if (this.retiredClients.has(prisma)) {
+        await prisma.$disconnect();
+      }
+    } finally {
+      this.retiredClients.delete(prisma);
+      this.emit('hard-reset:drained', remaining);
+
+      // Force garbage collection if available
+      if (this.config.memory.autoGC) {
+        triggerGC();
+      }
+    }
+  }
+
+  /**
+   * Number of operations currently running on any PrismaClient instance
+   */
+  private getTotalInFlight(): number {
+    let total = 0;
+    for (const count of this.inFlight.values()) {
+      total += count;
+    }
+    return total;
+  }
+
+  /**
+   * Number of operations currently running on a PrismaClient instance
+   */
+  private getInFlight(prisma: PrismaClient): number {
+    return this.inFlight.get(prisma) || 0;
+  }
+
+  /**
+   * Run one attempt of an operation, tracking it as in flight on the current PrismaClient
+   */
+  private async runOperation<T>(operation: () => Promise<T>, callOptions?: ScopedCallOptions): Promise<T> {
+    const prisma = this.prisma;
+    if (callOptions) {
+      callOptions.attempts = (callOptions.attempts ?? 0) + 1;
+    }
+    this.inFlight.set(prisma, this.getInFlight(prisma) + 1);
+
+    try {
+      const result = await operation();
+      this.lastOperationSuccessAt = Date.now();
+      this.poolExhaustedSince = null;
+      return result;
+    } finally {
+      const remaining = this.getInFlight(prisma) - 1;
+      if (remaining > 0) {
+        this.inFlight.set(prisma, remaining);
+      } else {
+        this.inFlight.delete(prisma);
+        this.drainWaiters.get(prisma)?.();
+        this.drainWaiters.delete(prisma);
+      }
+      if (this.getPendingOperations() === 0) {
+        this.idleWaiter?.();
+      }
+    }
+  }
+
+  /**
+   * Number of operations shutdown waits for
+   * A deadline or AbortSignal settles the caller while its query keeps running on the
+   * connection, so attempts still in flight count as well as operations awaiting a result.
+   */
+  private getPendingOperations(): number {
+    return Math.max(this.activeOperations, this.getTotalInFlight());
+  }
+
+  /**
+   * Run a reconnect or hard reset, or join the one already in progress
+   * Only one recovery runs at a time; every other caller awaits the same promise
+   */
+  private recover(kind: 'reconnect' | 'hard-reset', parentSpan?: TraceSpan): Promise<void> {
+    if (!this.recoveryPromise) {
+      if (this.shutdownPromise) {
+        return Promise.reject(new ShutdownError(kind));
+      }
+      const recovery =
+        kind === 'hard-reset'
+          ? this.tracing.trace('prisma_resilient.hard_reset', {}, parentSpan, () => this.hardReset())
+          : this.tracing.trace('prisma_resilient.reconnect', {}, parentSpan, (span) => this.reconnectWithBackoff(span));
+      this.recoveryPromise = recovery.finally(() => {
+        this.recoveryPromise = null;
+      });
+    } else {
+      this.log('debug', `Joining recovery already in progress (requested: ${kind})`);
+      parentSpan?.addEvent('recovery.join', { 'prisma_resilient.recovery.kind': kind });
+    }
+    return this.recoveryPromise;
   }
 
   /**
    * Check if connection age exceeds maximum and perform preventive hard reset
+   * @returns true if a hard reset was performed
    */
-  private async checkConnectionAge(): Promise<void> {
+  private async checkConnectionAge(): Promise<boolean> {
     if (!this.prismaFactory || !this.config.reconnect.maxConnectionAge) {
-      return;
+      return false;
     }
 
     const connectionAge = Date.now() - this.connectionCreatedAt.getTime();
@@ -229,23 +716,76 @@ export class ResilientPrismaClient extends EventEmitter {
         `⏰ Connection age (${Math.round(connectionAge / 1000 / 60 / 60)}h) exceeds maximum, ` +
         `performing preventive hard reset...`
       );
-      await this.hardReset();
+      await this.recover('hard-reset');
+      return true;
     }
+    return false;
   }
 
   /**
    * Ensure connection is established
    */
-  private async ensureConnected(): Promise<void> {
+  private async ensureConnected(operationName: string = 'query', callOptions?: ScopedCallOptions): Promise<void> {
+    // The current client keeps serving while a hard reset builds its replacement
     if (this.connected) {
       return;
     }
 
+    // Operations issued during startup wait for the first connection instead of starting a reconnect
+    if (this.starting) {
+      await this.readyPromise.catch(() => undefined);
+      if (this.connected) {
+        return;
+      }
+    }
+
+    await this.waitForRecovery(this.recover('reconnect', callOptions?.span), operationName, callOptions);
+  }
+
+  /**
+   * Wait for a recovery in progress, parked in the wait queue when it is enabled
+   * Waiting operations are released in queue order once the recovery succeeds,
+   * and fail with the recovery error if it fails
+   */
+  private async waitForRecovery(
+    recovery: Promise<void>,
+    operationName: string,
+    callOptions: ScopedCallOptions | undefined
+  ): Promise<void> {
+    if (!this.config.queue.enabled) {
+      await recovery;
+      return;
+    }
+
+    const waiting = this.waitQueue.enqueue(operationName, callOptions?.priority ?? 0);
+    recovery.then(
+      () => this.waitQueue.release(),
+      (error) => this.waitQueue.rejectAll(error)
+    );
+    await waiting;
+  }
+
+  /**
+   * Reconnect loop with backoff, falling back to hard reset on the final attempt
+   * Must only be started through recover()
+   */
+  private async reconnectWithBackoff(span: TraceSpan): Promise<void> {
     this.log('debug', 'Connection lost, attempting to reconnect...');
+    const startTime = Date.now();
 
     const maxAttempts = this.config.reconnect.maxAttempts || 3;
+    const backoff = createBackoffPolicy(
+      this.config.reconnect.backoff || 'exponential',
+      this.config.reconnect.initialDelay || 1000,
+      this.config.reconnect.maxDelay || 10000
+    );
     for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      if (this.shutdownPromise) {
+        throw new ShutdownError('reconnect');
+      }
       this.reconnectAttempts = attempt;
+      span.setAttribute('prisma_resilient.attempts', attempt);
+      span.addEvent('reconnect.attempt', { 'prisma_resilient.attempt': attempt });
       this.emit('reconnect', attempt);
       this.log('info', `Reconnection attempt ${attempt}/${maxAttempts}`);
 
@@ -257,7 +797,7 @@ export class ResilientPrismaClient extends EventEmitter {
           this.config.reconnect.hardResetOnFinalAttempt
         ) {
           this.log('warn', '🔧 Final attempt: trying hard reset...');
-          await this.hardReset();
+          await this.tracing.trace('prisma_resilient.hard_reset', {}, span, () => this.hardReset());
           this.totalReconnects++;
           this.emit('reconnect:success');
           this.log('info', 'Reconnection successful via hard reset');
@@ -268,162 +808,739 @@ export class ResilientPrismaClient extends EventEmitter {
         await this.disconnect();
 
         // Wait with backoff
-        const delay = calculateBackoff(
-          attempt,
-          this.config.reconnect.initialDelay || 1000,
-          this.config.reconnect.maxDelay || 10000,
-          this.config.reconnect.backoff || 'exponential'
-        );
+        const delay = backoff.next();
         this.log('debug', `Waiting ${delay}ms before reconnect...`);
-        await sleep(delay);
+        span.addEvent('backoff', { 'prisma_resilient.backoff.delay_ms': delay });
+        await sleep(delay, this.shutdownController.signal);
+        if (this.shutdownPromise) {
+          throw new ShutdownError('reconnect');
+        }
 
         // Attempt connection
         await this.connect();
+        if (this.shutdownPromise) {
+          await this.disconnect();
+          throw new ShutdownError('reconnect');
+        }
 
         this.totalReconnects++;
         this.emit('reconnect:success');
         this.log('info', 'Reconnection successful');
         return;
       } catch (error) {
+        if (error instanceof ShutdownError) {
+          this.log('info', 'Reconnect cancelled by shutdown');
+          throw error;
+        }
         this.log('warn', `Reconnection attempt ${attempt} failed:`, error);
+        span.addEvent('reconnect.failed', {
+          'prisma_resilient.attempt': attempt,
+          'prisma_resilient.error.classification': this.classifyError(error),
+        });
 
         if (attempt === maxAttempts) {
           this.emit('reconnect:failed', error as Error);
-          throw new Error(`Failed to reconnect after ${maxAttempts} attempts: ${getErrorMessage(error)}`);
+          throw new ReconnectFailedError({
+            attempts: maxAttempts,
+            elapsedMs: Date.now() - startTime,
+            cause: error,
+          });
         }
       }
     }
   }
 
   /**
-   * Execute operation with automatic reconnection
+   * Handle circuit breaker state transitions
+   */
+  private onCircuitStateChange(state: CircuitState): void {
+    if (state === 'open') {
+      this.log('warn', `🚫 Circuit opened, failing fast for ${this.config.circuitBreaker.cooldownMs}ms`);
+      this.emit('circuit:open');
+    } else if (state === 'half-open') {
+      this.log('info', 'Circuit half-open, allowing trial requests');
+      this.emit('circuit:half-open');
+    } else {
+      this.log('info', 'Circuit closed');
+      this.emit('circuit:close');
+    }
+  }
+
+  /**
+   * Execute operation within its deadline, through the bulkheads and the circuit breaker
+   * with automatic reconnection
+   * Rejects with ShutdownError once shutdown() has been called
    */
   private async executeWithReconnect<T>(
     operation: () => Promise<T>,
-    operationName: string = 'query'
+    operationName: string = 'query',
+    callOptions: ScopedCallOptions | undefined = this.callContext.getStore()
   ): Promise<T> {
-    const startTime = Date.now();
-
-    try {
-      // Ensure connected before operation
-      await this.ensureConnected();
-
-      // Execute operation
-      const result = await operation();
-
-      // Update stats
-      this.queryCount++;
-      this.consecutiveErrors = 0; // Reset on success
-      const duration = Date.now() - startTime;
-      this.log('debug', `${operationName} completed in ${duration}ms`);
-
-      // Check memory and trigger GC if needed
-      if (this.config.memory.autoGC) {
-        const heapUsage = getHeapUsagePercent();
-        const gcThreshold = this.config.memory.gcThreshold || 0.85;
-        if (heapUsage >= gcThreshold) {
-          this.log('warn', `High memory usage: ${(heapUsage * 100).toFixed(2)}%`);
-          this.emit('memory:high', heapUsage * 100);
+    if (this.shutdownPromise) {
+      throw new ShutdownError(operationName);
+    }
 
-          if (triggerGC()) {
-            this.emit('gc:executed');
-            this.log('info', 'Garbage collection executed');
-          }
-        }
-      }
+    // Nested operations never outlive the deadline of the operation that started them
+    const timeoutMs = callOptions?.timeoutMs ?? this.config.timeout.defaultMs ?? Infinity;
+    const deadline = Math.min(callOptions?.deadline ?? Infinity, Date.now() + timeoutMs);
+    const span = this.tracing.startOperationSpan(operationName, {
+      'db.operation.name': operationName,
+      ...(this.provider && { 'db.system': this.provider }),
+    });
+    const scoped: ScopedCallOptions = {
+      ...callOptions,
+      deadline: deadline === Infinity ? undefined : deadline,
+      startedAt: Date.now(),
+      attempts: 0,
+      lastError: undefined,
+      span,
+    };
 
+    this.activeOperations++;
+    try {
+      const result = await this.tracing.withSpan(span, () => this.executeWithDeadline(operation, operationName, scoped));
+      this.completeOperation(operationName, scoped, 'success');
       return result;
     } catch (error) {
-      this.errorCount++;
-      this.consecutiveErrors++;
-      const duration = Date.now() - startTime;
-
-      this.log('error', `${operationName} failed (consecutive errors: ${this.consecutiveErrors}):`, error);
-
-      // Check for excessive consecutive errors and trigger hard reset
-      const maxConsecutiveErrors = this.config.reconnect.maxConsecutiveErrors || 10;
-      if (
-        this.consecutiveErrors >= maxConsecutiveErrors &&
-        this.prismaFactory
-      ) {
-        this.log(
-          'error',
-          `⚠️ ${this.consecutiveErrors} consecutive errors detected, performing hard reset...`
-        );
-        try {
-          await this.hardReset();
-          this.consecutiveErrors = 0;
-          // Retry operation after hard reset
-          return await operation();
-        } catch (resetError) {
-          this.log('error', 'Hard reset failed:', resetError);
-          throw error; // Throw original error
-        }
-      }
-
-      // Call custom error handler
-      if (this.config.onError) {
-        const context: ErrorContext = {
-          operation: operationName,
-          retryCount: this.reconnectAttempts,
-          duration,
-        };
-        await this.config.onError(error as Error, context);
-      }
-
-      // If it's a connection error, mark as disconnected and retry
-      if (isRetryableError(error)) {
-        this.connected = false;
-        this.emit('disconnect', error as Error);
-        this.log('warn', 'Connection error detected, attempting reconnect...');
-
-        // Retry with reconnection
-        await this.ensureConnected();
-        return await operation();
-      }
-
-      // Non-retryable error, throw immediately
+      this.completeOperation(operationName, scoped, this.getOutcome(error), error);
       throw error;
+    } finally {
+      this.activeOperations--;
+      if (this.getPendingOperations() === 0) {
+        this.idleWaiter?.();
+      }
     }
   }
 
   /**
-   * Start periodic connection refresh
+   * Execute operation within its deadline and AbortSignal
    */
-  private startPeriodicRefresh(): void {
-    this.refreshTimer = setInterval(async () => {
-      this.log('debug', 'Performing periodic connection refresh...');
-      try {
-        // Check connection age and perform preventive hard reset if needed
-        await this.checkConnectionAge();
-
-        // Mark as disconnected first to ensure clean state
-        this.connected = false;
+  private async executeWithDeadline<T>(
+    operation: () => Promise<T>,
+    operationName: string,
+    scoped: ScopedCallOptions
+  ): Promise<T> {
+    const timeoutMs = scoped.timeoutMs ?? this.config.timeout.defaultMs ?? Infinity;
+    const deadline = scoped.deadline ?? Infinity;
+    const signal = scoped.signal;
 
-        // Disconnect old connection (ignore errors)
-        await this.disconnect();
+    if (deadline === Infinity && !signal) {
+      return this.callContext.run(scoped, () => this.executeWithBulkheads(operation, operationName, scoped));
+    }
+    this.checkDeadline(operationName, scoped);
 
-        // Reconnect using ensureConnected for robust retry logic
-        await this.ensureConnected();
+    return new Promise<T>((resolve, reject) => {
+      let timer: NodeJS.Timeout | null = null;
+      const onAbort = () => {
+        cleanup();
+        reject(new OperationAbortedError(operationName, signal?.reason, this.getProgress(scoped)));
+      };
+      const cleanup = () => {
+        if (timer) {
+          clearTimeout(timer);
+        }
+        signal?.removeEventListener('abort', onAbort);
+      };
 
-        this.log('info', 'Connection refreshed successfully');
-      } catch (error) {
-        this.log('error', 'Failed to refresh connection:', error);
-        // Ensure we're marked as disconnected so next operation will retry
-        this.connected = false;
+      if (deadline !== Infinity) {
+        timer = setTimeout(() => {
+          cleanup();
+          this.totalTimeouts++;
+          this.log('warn', `⏰ ${operationName} did not complete within its deadline`);
+          reject(new QueryTimeoutError(operationName, timeoutMs, this.getProgress(scoped)));
+        }, Math.max(0, deadline - Date.now()));
       }
-    }, this.config.refresh.intervalMs || 300000);
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      // The scope lets retry loops deeper down stop once the deadline has passed
+      this.callContext
+        .run(scoped, () => this.executeWithBulkheads(operation, operationName, scoped))
+        .then(
+          (result) => {
+            cleanup();
+            resolve(result);
+          },
+          (error) => {
+            cleanup();
+            reject(error);
+          }
+        );
+    });
   }
 
   /**
-   * Start periodic health checks
+   * Throw if the operation's deadline has passed or its signal was aborted
+   * Checked before every retry, so an expired operation never starts more database work
+   */
+  private checkDeadline(operationName: string, callOptions: ScopedCallOptions | undefined): void {
+    if (callOptions?.signal?.aborted) {
+      throw new OperationAbortedError(operationName, callOptions.signal.reason, this.getProgress(callOptions));
+    }
+    if (callOptions?.deadline !== undefined && Date.now() >= callOptions.deadline) {
+      throw new QueryTimeoutError(
+        operationName,
+        callOptions.timeoutMs ?? this.config.timeout.defaultMs ?? 0,
+        this.getProgress(callOptions)
+      );
+    }
+  }
+
+  /**
+   * Attempts, elapsed time and last error of a running operation, for error details
+   */
+  private getProgress(callOptions: ScopedCallOptions | undefined): ResilientPrismaErrorDetails {
+    return {
+      attempts: callOptions?.attempts ?? 0,
+      elapsedMs: callOptions?.startedAt !== undefined ? Date.now() - callOptions.startedAt : 0,
+      cause: callOptions?.lastError,
+    };
+  }
+
+  /**
+   * Emit `operation:complete` for a finished operation, end its span and record its statistics
+   */
+  private completeOperation(
+    operationName: string,
+    scoped: ScopedCallOptions,
+    outcome: OperationOutcome,
+    error?: unknown
+  ): void {
+    const result: OperationResult = {
+      operation: operationName,
+      outcome,
+      durationMs: Date.now() - (scoped.startedAt ?? Date.now()),
+      attempts: scoped.attempts ?? 0,
+    };
+    if (outcome === 'error') {
+      result.classification = this.classifyError(error);
+    }
+
+    if (scoped.span) {
+      scoped.span.setAttribute('prisma_resilient.outcome', outcome);
+      scoped.span.setAttribute('prisma_resilient.attempts', result.attempts);
+      if (result.classification) {
+        scoped.span.setAttribute('prisma_resilient.error.classification', result.classification);
+      }
+      this.tracing.endSpan(scoped.span, outcome === 'success' ? undefined : error);
+    }
+    if (this.config.operationStats.enabled) {
+      this.recordOperationStats(result);
+    }
+    this.emit('operation:complete', result);
+  }
+
+  /**
+   * Add a retry event to the operation's span
+   */
+  private traceRetry(
+    callOptions: ScopedCallOptions | undefined,
+    reason: string,
+    attempt: number,
+    error: unknown
+  ): void {
+    callOptions?.span?.addEvent('retry', {
+      'prisma_resilient.attempt': attempt,
+      'prisma_resilient.retry.reason': reason,
+      'prisma_resilient.error.classification': this.classifyError(error),
+    });
+  }
+
+  /**
+   * How an operation ended, for metrics
+   */
+  private getOutcome(error: unknown): OperationOutcome {
+    if (error instanceof QueryTimeoutError) {
+      return 'timeout';
+    }
+    if (error instanceof OperationAbortedError) {
+      return 'aborted';
+    }
+    if (
+      error instanceof CircuitOpenError ||
+      error instanceof QueueRejectedError ||
+      error instanceof BulkheadRejectedError ||
+      error instanceof PausedError ||
+      error instanceof ShutdownError
+    ) {
+      return 'rejected';
+    }
+    return 'error';
+  }
+
+  /**
+   * Execute operation through the bulkheads and the circuit breaker with automatic reconnection
+   */
+  private async executeWithBulkheads<T>(
+    operation: () => Promise<T>,
+    operationName: string,
+    callOptions: ScopedCallOptions | undefined
+  ): Promise<T> {
+    // Held operations wait before taking a bulkhead slot
+    await this.waitIfPaused(operationName, callOptions);
+
+    if (!this.config.bulkhead.enabled) {
+      return this.executeWithCircuitBreaker(operation, operationName, callOptions);
+    }
+
+    const acquired = await this.acquireBulkheads(operationName, callOptions);
+    try {
+      this.checkDeadline(operationName, callOptions);
+      return await this.executeWithCircuitBreaker(operation, operationName, callOptions);
+    } finally {
+      for (const bulkhead of acquired) {
+        bulkhead.release();
+      }
+    }
+  }
+
+  /**
+   * Take a slot in the operation's group bulkhead, then in the global bulkhead
+   * Always acquired in this order, so operations never wait on each other in a cycle
+   */
+  private async acquireBulkheads(operationName: string, callOptions: ScopedCallOptions | undefined): Promise<Bulkhead[]> {
+    const patterns = getOperationPatterns(operationName);
+    const group = this.groupBulkheads.find(({ operations }) =>
+      operations.some((pattern) => patterns.includes(pattern))
+    );
+    const bulkheads = group ? [group.bulkhead, this.globalBulkhead] : [this.globalBulkhead];
+    const priority = callOptions?.priority ?? 0;
+
+    const acquired: Bulkhead[] = [];
+    try {
+      for (const bulkhead of bulkheads) {
+        await bulkhead.acquire(operationName, priority);
+        acquired.push(bulkhead);
+      }
+    } catch (error) {
+      for (const bulkhead of acquired) {
+        bulkhead.release();
+      }
+      if (error instanceof BulkheadRejectedError) {
+        this.log('warn', error.message);
+        this.emit('bulkhead:rejected', error.bulkhead, operationName, error.reason);
+      }
+      throw error;
+    }
+    return acquired;
+  }
+
+  /**
+   * Execute operation through the circuit breaker with automatic reconnection
+   */
+  private async executeWithCircuitBreaker<T>(
+    operation: () => Promise<T>,
+    operationName: string,
+    callOptions: ScopedCallOptions | undefined
+  ): Promise<T> {
+    if (!this.config.circuitBreaker.enabled) {
+      return this.runWithReconnect(operation, operationName, callOptions);
+    }
+
+    const permit = this.circuitBreaker.acquire();
+    if (!permit) {
+      throw new CircuitOpenError(operationName, this.circuitBreaker.getRetryAfterMs(), this.getProgress(callOptions));
+    }
+
+    try {
+      const result = await this.runWithReconnect(operation, operationName, callOptions);
+      this.circuitBreaker.onSuccess(permit);
+      return result;
+    } catch (error) {
+      // Only connection failures count against the circuit; application errors prove the database answered
+      if (!this.connected || this.isConnectionFailure(this.classifyError(error))) {
+        this.circuitBreaker.onFailure(permit);
+      } else {
+        this.circuitBreaker.onSuccess(permit);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run operation with automatic reconnection
+   */
+  private async runWithReconnect<T>(
+    operation: () => Promise<T>,
+    operationName: string,
+    callOptions: ScopedCallOptions | undefined
+  ): Promise<T> {
+    const startTime = Date.now();
+    let generation = this.connectionGeneration;
+    if (this.config.retryBudget.enabled) {
+      this.retryBudget.recordRequest();
+    }
+
+    try {
+      // Ensure connected before operation
+      await this.ensureConnected(operationName, callOptions);
+      generation = this.connectionGeneration;
+      this.checkDeadline(operationName, callOptions);
+
+      // Execute operation
+      const result = await this.runWithPoolBackoff(operation, operationName, callOptions);
+
+      // Update stats
+      this.queryCount++;
+      this.consecutiveErrors = 0; // Reset on success
+      const duration = Date.now() - startTime;
+      this.log('debug', `${operationName} completed in ${duration}ms`);
+
+      // Check memory and trigger GC if needed
+      if (this.config.memory.autoGC) {
+        const heapUsage = getHeapUsagePercent();
+        const gcThreshold = this.config.memory.gcThreshold || 0.85;
+        if (heapUsage >= gcThreshold) {
+          this.log('warn', `High memory usage: ${(heapUsage * 100).toFixed(2)}%`);
+          this.emit('memory:high', heapUsage * 100);
+
+          if (triggerGC()) {
+            this.emit('gc:executed');
+            this.log('info', 'Garbage collection executed');
+          }
+        }
+      }
+
+      return result;
+    } catch (error) {
+      // Backpressure from the wait queue says nothing about the database
+      if (error instanceof QueueRejectedError) {
+        this.log('warn', error.message);
+        throw error;
+      }
+      if (error instanceof QueryTimeoutError || error instanceof OperationAbortedError) {
+        throw error;
+      }
+      if (callOptions) {
+        callOptions.lastError = error;
+      }
+
+      const duration = Date.now() - startTime;
+      const classification = this.classifyError(error);
+      // The recovery already ran out of attempts; starting another one would double the wait
+      const recoveryFailed = error instanceof ReconnectFailedError || error instanceof HardResetError;
+      const connectionFailure = !recoveryFailed && this.isConnectionFailure(classification);
+
+      this.errorCount++;
+      // Pool exhaustion under load must not build up towards a hard reset
+      if (classification !== 'pool-exhausted' || connectionFailure) {
+        this.consecutiveErrors++;
+      }
+
+      // Never replay a write the server may already have committed, unless it is marked safe
+      const canRetry =
+        !isAmbiguousFailure(error, classification) ||
+        isRetrySafe(operationName, this.config.retryPolicy, callOptions);
+
+      this.log('error', `${operationName} failed (consecutive errors: ${this.consecutiveErrors}):`, error);
+
+      // Check for excessive consecutive errors and trigger hard reset
+      const maxConsecutiveErrors = this.config.reconnect.maxConsecutiveErrors || 10;
+      if (
+        this.consecutiveErrors >= maxConsecutiveErrors &&
+        this.prismaFactory &&
+        !recoveryFailed
+      ) {
+        this.log(
+          'error',
+          `⚠️ ${this.consecutiveErrors} consecutive errors detected, performing hard reset...`
+        );
+        try {
+          await this.recover('hard-reset', callOptions?.span);
+        } catch (resetError) {
+          this.log('error', 'Hard reset failed:', resetError);
+          throw error; // Throw original error
+        }
+        this.consecutiveErrors = 0;
+        if (!canRetry || !this.acquireRetry(operationName)) {
+          throw error;
+        }
+        // Retry operation after hard reset
+        this.checkDeadline(operationName, callOptions);
+        this.traceRetry(callOptions, 'hard-reset', (callOptions?.attempts ?? 0) + 1, error);
+        return await this.runOperation(operation, callOptions);
+      }
+
+      // Call custom error handler
+      if (this.config.onError) {
+        const context: ErrorContext = {
+          operation: operationName,
+          retryCount: this.reconnectAttempts,
+          duration,
+          classification,
+        };
+        await this.config.onError(error as Error, context);
+      }
+
+      // If it's a connection error, mark as disconnected and retry
+      if (connectionFailure) {
+        // Skip teardown if the connection was already rebuilt after this operation started
+        if (generation === this.connectionGeneration && !this.recoveryPromise) {
+          this.connected = false;
+          this.emit('disconnect', error as Error);
+          this.log('warn', 'Connection error detected, attempting reconnect...');
+        }
+
+        if (!canRetry) {
+          this.log('warn', `${operationName} is not safe to retry after an ambiguous failure, not retrying`);
+          throw error;
+        }
+        if (!this.acquireRetry(operationName)) {
+          throw error;
+        }
+
+        // Retry with reconnection (joins any recovery in progress)
+        this.traceRetry(callOptions, 'reconnect', (callOptions?.attempts ?? 0) + 1, error);
+        if (this.recoveryPromise) {
+          await this.waitForRecovery(this.recoveryPromise, operationName, callOptions);
+        } else {
+          await this.ensureConnected(operationName, callOptions);
+        }
+        this.checkDeadline(operationName, callOptions);
+        return await this.runOperation(operation, callOptions);
+      }
+
+      // Non-retryable error, throw immediately
+      throw error;
+    }
+  }
+
+  /**
+   * Run one operation, retrying after a short jittered delay while the pool is exhausted
+   * The connection is left alone: the pool is busy, not broken
+   */
+  private async runWithPoolBackoff<T>(
+    operation: () => Promise<T>,
+    operationName: string,
+    callOptions: ScopedCallOptions | undefined
+  ): Promise<T> {
+    const maxRetries = this.config.poolExhaustion.maxRetries ?? 3;
+    const backoff = createBackoffPolicy(
+      this.config.poolExhaustion.backoff || 'full-jitter',
+      this.config.poolExhaustion.initialDelay || 50,
+      this.config.poolExhaustion.maxDelay || 1000
+    );
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.runOperation(operation, callOptions);
+      } catch (error) {
+        if (this.classifyError(error) !== 'pool-exhausted') {
+          throw error;
+        }
+        if (callOptions) {
+          callOptions.lastError = error;
+        }
+
+        this.poolExhaustedCount++;
+        this.poolExhaustedSince ??= Date.now();
+        this.emit('pool:exhausted', operationName, attempt);
+        if (attempt > maxRetries || this.isPoolExhaustionPersistent() || !this.acquireRetry(operationName)) {
+          throw error;
+        }
+
+        // Jitter spreads the retries of all waiting operations
+        const delay = backoff.next();
+        this.log('warn', `Connection pool exhausted, retrying ${operationName} in ${delay}ms (attempt ${attempt}/${maxRetries})`);
+        this.traceRetry(callOptions, 'pool-exhausted', (callOptions?.attempts ?? attempt) + 1, error);
+        callOptions?.span?.addEvent('backoff', { 'prisma_resilient.backoff.delay_ms': delay });
+        await sleep(delay);
+        this.checkDeadline(operationName, callOptions);
+      }
+    }
+  }
+
+  /**
+   * Take a token from the retry budget before retrying an operation
+   * @returns false if the budget is exhausted and the operation must not be retried
+   */
+  private acquireRetry(operationName: string): boolean {
+    if (!this.config.retryBudget.enabled || this.retryBudget.tryAcquire()) {
+      return true;
+    }
+    this.log('warn', `Retry budget exhausted, not retrying ${operationName}`);
+    this.emit('retry:budget-exhausted', operationName);
+    return false;
+  }
+
+  /**
+   * Check if pool timeouts have persisted past `poolExhaustion.reconnectAfterMs`
+   * without any successful operation
+   */
+  private isPoolExhaustionPersistent(): boolean {
+    return (
+      this.poolExhaustedSince !== null &&
+      Date.now() - this.poolExhaustedSince >= (this.config.poolExhaustion.reconnectAfterMs ?? 60000)
+    );
+  }
+
+  /**
+   * Execute an interactive transaction, retrying the whole callback as a unit
+   * Serialization failures, deadlocks and CockroachDB restarts are retried here with their
+   * own attempt limit and backoff; connection failures go through executeWithReconnect and
+   * its retry policy. The callback receives the raw transaction client, so queries inside
+   * it never start a nested reconnect loop.
+   */
+  private executeTransaction<T>(
+    callback: (tx: any) => Promise<T>,
+    options: any,
+    callOptions: ScopedCallOptions | undefined = this.callContext.getStore()
+  ): Promise<T> {
+    const maxAttempts = this.config.transaction.maxAttempts || 3;
+
+    return this.executeWithReconnect(
+      async () => {
+        const backoff = createBackoffPolicy(
+          this.config.transaction.backoff || 'exponential',
+          this.config.transaction.initialDelay || 50,
+          this.config.transaction.maxDelay || 1000
+        );
+
+        for (let attempt = 1; ; attempt++) {
+          try {
+            return await this.prisma.$transaction(callback, options);
+          } catch (error) {
+            if (
+              this.classifyError(error) !== 'retryable-transient' ||
+              attempt >= maxAttempts ||
+              !this.acquireRetry('$transaction')
+            ) {
+              throw error;
+            }
+
+            this.transactionRetries++;
+            this.emit('transaction:retry', attempt, error as Error);
+
+            const delay = backoff.next();
+            const scoped = this.callContext.getStore();
+            this.log('warn', `Transaction conflict, retrying in ${delay}ms (attempt ${attempt}/${maxAttempts})`);
+            this.traceRetry(scoped, 'transaction-conflict', attempt + 1, error);
+            scoped?.span?.addEvent('backoff', { 'prisma_resilient.backoff.delay_ms': delay });
+            await sleep(delay);
+            this.checkDeadline('$transaction', scoped);
+          }
+        }
+      },
+      '$transaction',
+      callOptions
+    );
+  }
+
+  /**
+   * Check if an error classification means the connection should be rebuilt
+   * Pool exhaustion only does once it has persisted past the configured threshold
+   */
+  private isConnectionFailure(classification: ErrorClassification): boolean {
+    if (classification === 'pool-exhausted') {
+      return this.isPoolExhaustionPersistent();
+    }
+    return classification === 'retryable-connection';
+  }
+
+  /**
+   * Start periodic connection refresh
+   */
+  private startPeriodicRefresh(): void {
+    this.refreshTimer = setInterval(async () => {
+      try {
+        await this.refreshConnection();
+      } catch (error) {
+        this.log('error', 'Failed to refresh connection:', error);
+        // A hard reset that could not connect its new client leaves the current one serving
+        const currentClientIntact = error instanceof HardResetError && error.reason === 'connect-failed';
+        // Otherwise mark as disconnected so next operation will retry
+        if (!this.recoveryPromise && !currentClientIntact) {
+          this.connected = false;
+        }
+      }
+    }, this.config.refresh.intervalMs || 300000);
+  }
+
+  /**
+   * Refresh the connection using the configured refresh mode
+   * - reconnect: disconnect and reconnect unconditionally
+   * - skip-if-active: skip while recent successful operations prove the connection is alive
+   * - idle: wait for a window with no in-flight operations, skip if none comes
+   * - swap: background blue-green swap to a new PrismaClient (requires a factory)
+   */
+  private async refreshConnection(): Promise<void> {
+    const mode: RefreshMode = this.config.refresh.mode || 'reconnect';
+    const startTime = Date.now();
+    this.log('debug', `Performing periodic connection refresh (mode: ${mode})...`);
+
+    const complete = (action: RefreshResult['action']) => {
+      const result: RefreshResult = { mode, action, durationMs: Date.now() - startTime };
+      this.emit('refresh:complete', result);
+      if (action === 'skipped') {
+        this.log('debug', `Connection refresh skipped (mode: ${mode})`);
+      } else {
+        this.log('info', `Connection refreshed successfully (mode: ${mode}, ${result.durationMs}ms)`);
+      }
+    };
+
+    // Refreshes and preventive hard resets wait for the next maintenance window
+    if (this.pauseState || !this.isInMaintenanceWindow()) {
+      complete('skipped');
+      return;
+    }
+
+    // Check connection age and perform preventive hard reset if needed
+    if (await this.checkConnectionAge()) {
+      complete('swap');
+      return;
+    }
+
+    if (mode === 'skip-if-active' && this.connected) {
+      const activityWindowMs = this.config.refresh.activityWindowMs ?? 60000;
+      if (Date.now() - this.lastOperationSuccessAt < activityWindowMs) {
+        complete('skipped');
+        return;
+      }
+    }
+
+    if (mode === 'idle' && !(await this.waitForIdle(this.config.refresh.idleTimeoutMs ?? 30000))) {
+      complete('skipped');
+      return;
+    }
+
+    if (mode === 'swap') {
+      if (this.prismaFactory) {
+        await this.recover('hard-reset');
+        complete('swap');
+        return;
+      }
+      this.log('warn', 'Refresh mode "swap" requires a PrismaClient factory, reconnecting instead');
+    }
+
+    // Reconnect, or join the recovery another caller already started
+    await this.reconnect();
+    complete('reconnect');
+  }
+
+  /**
+   * Wait until no operations are in flight
+   * @returns false if the timeout passed first
+   */
+  private async waitForIdle(timeoutMs: number): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+    while (this.getTotalInFlight() > 0) {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        return false;
+      }
+      await sleep(Math.min(50, remaining));
+    }
+    return true;
+  }
+
+  /**
+   * Start periodic health checks
    */
   private startHealthChecks(): void {
     this.healthCheckTimer = setInterval(async () => {
       try {
         const health = await this.healthCheck();
         if (health.status === 'unhealthy') {
-          this.log('warn', 'Health check failed:', health.error);
+          this.log('debug', `Health check failed (state: ${health.state}):`, health.error);
         }
       } catch (error) {
         this.log('error', 'Health check error:', error);
@@ -446,6 +1563,15 @@ export class ResilientPrismaClient extends EventEmitter {
 
   // Public API
 
+  /**
+   * Wait for the first connection
+   * Resolves once connected; rejects with StartupError if startup gave up.
+   * The client keeps running either way and recovers on the next operation or refresh.
+   */
+  public ready(): Promise<void> {
+    return this.readyPromise;
+  }
+
   /**
    * Check if currently connected to database
    */
@@ -453,6 +1579,88 @@ export class ResilientPrismaClient extends EventEmitter {
     return this.connected;
   }
 
+  /**
+   * Pause the client ahead of planned maintenance, such as a failover or a write freeze
+   * In 'hold' mode new operations wait in a queue until resume(); in 'reject' mode they
+   * fail fast with PausedError. With `reads: true`, read operations keep running.
+   * Calling it again while paused changes the mode; held operations keep waiting.
+   */
+  public pause(options: PauseOptions = {}): void {
+    this.pauseState = { mode: options.mode ?? 'hold', reads: options.reads ?? false };
+    if (!this.pauseQueue) {
+      this.pauseQueue = new WaitQueue({
+        maxSize: this.config.queue.maxSize ?? 1000,
+        maxWaitMs: options.maxWaitMs ?? this.config.queue.maxWaitMs ?? 30000,
+        order: this.config.queue.order ?? 'fifo',
+      });
+    }
+    this.log('info', `⏸️ Paused for maintenance (mode: ${this.pauseState.mode}, reads: ${this.pauseState.reads})`);
+    this.emit('pause', { ...this.pauseState });
+  }
+
+  /**
+   * Resume after pause(), releasing held operations in queue order
+   */
+  public resume(): void {
+    if (!this.pauseState) {
+      return;
+    }
+    const held = this.pauseQueue;
+    this.pauseState = null;
+    this.pauseQueue = null;
+    this.log('info', `▶️ Resumed, releasing ${held?.getDepth() ?? 0} held operation(s)`);
+    held?.release();
+    this.emit('resume');
+  }
+
+  /**
+   * Check if the client is paused through pause()
+   */
+  public isPaused(): boolean {
+    return this.pauseState !== null;
+  }
+
+  /**
+   * Check if a recovery is rebuilding a lost connection
+   * A hard reset that swaps instances while the current one keeps serving does not count
+   */
+  public isReconnecting(): boolean {
+    return this.recoveryPromise !== null && !this.connected;
+  }
+
+  /**
+   * Check if shutdown() has been called
+   */
+  public isShuttingDown(): boolean {
+    return this.shutdownPromise !== null;
+  }
+
+  /**
+   * Hold or reject an operation while the client is paused
+   */
+  private async waitIfPaused(operationName: string, callOptions: ScopedCallOptions | undefined): Promise<void> {
+    const pause = this.pauseState;
+    if (!pause || (pause.reads && isReadOperation(operationName))) {
+      return;
+    }
+    if (pause.mode === 'reject' || !this.pauseQueue) {
+      throw new PausedError(operationName);
+    }
+
+    await this.pauseQueue.enqueue(operationName, callOptions?.priority ?? 0);
+    this.checkDeadline(operationName, callOptions);
+  }
+
+  /**
+   * Check if a refresh may run now according to `maintenance.windows`
+   */
+  private isInMaintenanceWindow(): boolean {
+    return (
+      this.maintenanceWindows.length === 0 ||
+      isWithinMaintenanceWindow(this.maintenanceWindows, this.config.maintenance.timezone)
+    );
+  }
+
   /**
    * Get connection statistics
    */
@@ -461,6 +1669,7 @@ export class ResilientPrismaClient extends EventEmitter {
       ? Date.now() - this.lastSuccessfulConnection.getTime()
       : 0;
     const connectionAge = Date.now() - this.connectionCreatedAt.getTime();
+    const queue = this.waitQueue.getStats();
 
     return {
       isConnected: this.connected,
@@ -473,46 +1682,278 @@ export class ResilientPrismaClient extends EventEmitter {
       consecutiveErrors: this.consecutiveErrors,
       totalHardResets: this.totalHardResets,
       connectionAge,
+      transactionRetries: this.transactionRetries,
+      circuitState: this.circuitBreaker.getState(),
+      totalCircuitOpens: this.circuitBreaker.getTotalOpens(),
+      totalTimeouts: this.totalTimeouts,
+      retryBudgetRejections: this.retryBudget.getRejections(),
+      poolExhaustedCount: this.poolExhaustedCount,
+      queueDepth: queue.depth,
+      totalQueued: queue.totalQueued,
+      queueRejections: queue.rejections,
+      averageQueueWaitMs: queue.averageWaitMs,
+      maxQueueWaitMs: queue.maxWaitMs,
+      bulkheads: this.getBulkheadStats(),
+      paused: this.pauseState !== null,
+      healthState: this.healthMonitor.getState(),
     };
   }
 
   /**
-   * Perform health check
+   * Statistics of every bulkhead by name
    */
-  public async healthCheck(): Promise<HealthCheckResult> {
-    try {
-      const start = Date.now();
-      await this.prisma.$queryRaw`SELECT 1`;
-      const latency = Date.now() - start;
-
-      return {
-        status: 'healthy',
-        database: 'connected',
-        latency,
-        memory: getMemoryInfo(),
+  private getBulkheadStats(): Record<string, BulkheadStats> {
+    if (!this.config.bulkhead.enabled) {
+      return {};
+    }
+    const stats: Record<string, BulkheadStats> = { global: this.globalBulkhead.getStats() };
+    for (const { bulkhead } of this.groupBulkheads) {
+      stats[bulkhead.name] = bulkhead.getStats();
+    }
+    return stats;
+  }
+
+  /**
+   * Get statistics per operation name (e.g. `user.findMany`)
+   * Counts cover every operation since start or the last resetOperationStats(); latency
+   * percentiles cover the `operationStats.windowMs` sliding window only
+   */
+  public getOperationStats(): Record<string, OperationStats> {
+    const stats: Record<string, OperationStats> = {};
+    for (const [operation, record] of this.operationStats) {
+      stats[operation] = {
+        count: record.count,
+        errorCount: record.errorCount,
+        outcomes: { ...record.outcomes },
+        errorsByClassification: { ...record.errorsByClassification },
+        retries: record.retries,
+        latency: record.latency.getPercentiles(),
       };
-    } catch (error) {
-      return {
-        status: 'unhealthy',
-        database: 'disconnected',
-        error: getErrorMessage(error),
+    }
+    return stats;
+  }
+
+  /**
+   * Clear the statistics of one operation, or of every operation when omitted
+   */
+  public resetOperationStats(operation?: string): void {
+    if (operation === undefined) {
+      this.operationStats.clear();
+    } else {
+      this.operationStats.delete(operation);
+    }
+  }
+
+  /**
+   * Add a finished operation to its statistics
+   */
+  private recordOperationStats(result: OperationResult): void {
+    let record = this.operationStats.get(result.operation);
+    if (!record) {
+      record = {
+        count: 0,
+        errorCount: 0,
+        outcomes: { success: 0, error: 0, timeout: 0, aborted: 0, rejected: 0 },
+        errorsByClassification: {},
+        retries: 0,
+        latency: new LatencyWindow({
+          windowMs: this.config.operationStats.windowMs ?? 60000,
+          segments: this.config.operationStats.segments ?? 6,
+        }),
       };
+      this.operationStats.set(result.operation, record);
+    }
+
+    record.count++;
+    record.outcomes[result.outcome]++;
+    if (result.outcome !== 'success') {
+      record.errorCount++;
+    }
+    if (result.classification) {
+      record.errorsByClassification[result.classification] =
+        (record.errorsByClassification[result.classification] ?? 0) + 1;
+    }
+    record.retries += Math.max(0, result.attempts - 1);
+    record.latency.record(result.durationMs);
+  }
+
+  /**
+   * Perform health check
+   * Runs the built-in probe for the provider (`ping` on MongoDB, `SELECT 1` otherwise) and
+   * the probes in `healthCheck.probes` in parallel, each with its own timeout.
+   * Healthy only if every probe passes.
+   *
+   * Every check also feeds the health state machine, unless `{ record: false }` is passed;
+   * `state` applies the thresholds in `healthCheck` config, and `{ history: true }` adds
+   * the recent checks to the result.
+   */
+  public async healthCheck(options: { history?: boolean; record?: boolean } = {}): Promise<HealthCheckResult> {
+    const prisma = this.prisma;
+    const defaultTimeoutMs = this.config.healthCheck.timeoutMs ?? 5000;
+    const probes = [this.databaseProbe, ...(this.config.healthCheck.probes ?? [])];
+
+    const results = await Promise.all(
+      probes.map((probe) => runHealthProbe(probe, prisma, probe.timeoutMs ?? defaultTimeoutMs))
+    );
+    const [database] = results;
+    const failed = results.find((result) => result.status === 'fail');
+
+    const check: Omit<HealthCheckResult, 'state' | 'lastStateChange'> = failed
+      ? {
+          status: 'unhealthy',
+          database: database.status === 'pass' ? 'connected' : 'disconnected',
+          error: failed === database ? failed.error : `${failed.name}: ${failed.error}`,
+          probes: results,
+        }
+      : {
+          status: 'healthy',
+          database: 'connected',
+          latency: database.latency,
+          memory: getMemoryInfo(),
+          probes: results,
+        };
+
+    const previous = this.healthMonitor.getState();
+    if (options.record !== false) {
+      this.healthMonitor.record({
+        timestamp: new Date().toISOString(),
+        status: check.status,
+        latency: check.latency,
+        error: check.error,
+      });
+    }
+    const state = this.healthMonitor.getState();
+
+    const result: HealthCheckResult = {
+      ...check,
+      state,
+      lastStateChange: new Date(this.healthMonitor.getLastStateChange()).toISOString(),
+    };
+    if (options.history) {
+      result.history = this.healthMonitor.getHistory();
+    }
+
+    if (state !== previous) {
+      this.onHealthStateChange(state, previous, result);
+    }
+    return result;
+  }
+
+  /**
+   * Handle health state transitions, starting the configured recovery once the state becomes unhealthy
+   */
+  private onHealthStateChange(state: HealthState, previous: HealthState, result: HealthCheckResult): void {
+    if (state === 'healthy') {
+      this.log('info', `💚 Health recovered (was ${previous})`);
+    } else {
+      this.log('warn', `Health ${state} (was ${previous}):`, result.error);
     }
+    this.emit('health:change', state, previous, result);
+
+    const action = this.config.healthCheck.recoveryAction ?? 'none';
+    if (state !== 'unhealthy' || action === 'none' || this.shutdownPromise) {
+      return;
+    }
+
+    let recovery: Promise<void>;
+    if (action === 'hard-reset' && this.prismaFactory) {
+      this.log('warn', '🔧 Health unhealthy: performing hard reset...');
+      recovery = this.recover('hard-reset');
+    } else {
+      if (action === 'hard-reset') {
+        this.log('warn', 'Health recovery "hard-reset" requires a PrismaClient factory, reconnecting instead');
+      }
+      recovery = this.reconnect();
+    }
+    recovery.catch((error) => {
+      this.log('error', 'Recovery after failed health checks failed:', error);
+    });
+  }
+
+  /**
+   * Run an operation with circuit breaking, automatic reconnection, retry policy and stats
+   * Used by the Prisma client extension; getClient() applies it to every query automatically
+   * @param operation - Function performing the database call
+   * @param operationName - Name used for logging, stats and retry policy (e.g. `user.findMany`)
+   */
+  public execute<T>(operation: () => Promise<T>, operationName: string = 'query'): Promise<T> {
+    return this.executeWithReconnect(operation, operationName);
+  }
+
+  /**
+   * Run a function with per-call options applied to every operation it starts
+   * @example
+   * await resilientClient.withOptions({ idempotent: true }, () =>
+   *   prisma.counter.update({ where: { id }, data: { value: 42 } })
+   * );
+   */
+  public withOptions<T>(options: CallOptions, fn: () => T): T {
+    return this.callContext.run({ ...this.callContext.getStore(), ...options }, fn);
   }
 
   /**
    * Manually trigger reconnection
    */
   public async reconnect(): Promise<void> {
-    this.connected = false;
-    await this.ensureConnected();
+    // Join a recovery in progress instead of tearing down the connection it is rebuilding
+    if (!this.recoveryPromise) {
+      this.connected = false;
+    }
+    await this.recover('reconnect');
+  }
+
+  /**
+   * Graceful shutdown
+   * New operations are rejected with ShutdownError, in-flight operations get up to
+   * `shutdown.gracePeriodMs` to finish, and a reconnect in progress is cancelled before
+   * disconnecting. Calling it again returns the same result.
+   */
+  public shutdown(): Promise<ShutdownResult> {
+    if (!this.shutdownPromise) {
+      this.shutdownPromise = this.performShutdown();
+    }
+    return this.shutdownPromise;
   }
 
   /**
-   * Clean shutdown
+   * Register signal handlers that shut the client down gracefully
+   * Opt-in: no handlers are registered unless this is called
+   * @returns Function removing the handlers
+   * @example
+   * resilientClient.registerShutdownHandlers({
+   *   onShutdown: ({ drained, aborted }) => console.log(`${drained} drained, ${aborted} aborted`),
+   * });
    */
-  public async shutdown(): Promise<void> {
+  public registerShutdownHandlers(options: ShutdownHandlerOptions = {}): () => void {
+    const { signals = ['SIGTERM', 'SIGINT'], exit = true, onShutdown } = options;
+
+    const handler = async (signal: NodeJS.Signals) => {
+      this.log('info', `Received ${signal}, shutting down gracefully...`);
+      try {
+        const result = await this.shutdown();
+        await onShutdown?.(result);
+      } catch (error) {
+        this.log('error', 'Error during shutdown:', error);
+      }
+      if (exit) {
+        process.exit(0);
+      }
+    };
+
+    for (const signal of signals) {
+      process.on(signal, handler);
+    }
+    return () => {
+      for (const signal of signals) {
+        process.off(signal, handler);
+      }
+    };
+  }
+
+  private async performShutdown(): Promise<ShutdownResult> {
+    const startTime = Date.now();
     this.log('info', 'Shutting down...');
+    this.emit('shutdown:start');
 
     // Clear timers
     if (this.refreshTimer) {
@@ -524,32 +1965,125 @@ export class ResilientPrismaClient extends EventEmitter {
       this.healthCheckTimer = null;
     }
 
+    // Cancel a reconnect loop waiting out its backoff, and fail operations held by pause()
+    this.shutdownController.abort();
+    this.pauseQueue?.rejectAll(new ShutdownError('pause'));
+
+    // Give in-flight operations the grace period to finish
+    const gracePeriodMs = this.config.shutdown.gracePeriodMs ?? 10000;
+    const inFlight = this.getPendingOperations();
+    if (inFlight > 0) {
+      this.log('info', `Draining ${inFlight} in-flight operation(s)...`);
+      await this.waitForOperations(gracePeriodMs);
+    }
+    const aborted = this.getPendingOperations();
+    if (aborted > 0) {
+      this.log('warn', `Grace period ended: disconnecting with ${aborted} operation(s) in flight`);
+    }
+
+    // A recovery mid-connect must not reconnect after the disconnect below. It gets what is
+    // left of the grace period; a recovery that connects later disconnects on its own.
+    const recovery = this.recoveryPromise;
+    if (recovery) {
+      let timer: NodeJS.Timeout | undefined;
+      const settled = await Promise.race([
+        recovery.then(() => true, () => true),
+        new Promise<boolean>((resolve) => {
+          timer = setTimeout(() => resolve(false), Math.max(0, gracePeriodMs - (Date.now() - startTime)));
+        }),
+      ]);
+      clearTimeout(timer);
+      if (!settled) {
+        this.log('warn', 'Grace period ended: disconnecting with a recovery still in progress');
+      }
+    }
+
+    // Disconnect old instances still draining after a hard reset
+    for (const retired of this.retiredClients) {
+      this.retiredClients.delete(retired);
+      this.drainWaiters.get(retired)?.();
+      try {
+        await retired.$disconnect();
+      } catch (error) {
+        this.log('warn', 'Error disconnecting old PrismaClient:', error);
+      }
+    }
+
     // Disconnect
     await this.disconnect();
 
-    this.log('info', 'Shutdown complete');
+    const result: ShutdownResult = {
+      drained: inFlight - aborted,
+      aborted,
+      durationMs: Date.now() - startTime,
+    };
+    this.emit('shutdown:complete', result);
+    this.log('info', `Shutdown complete: ${result.drained} drained, ${result.aborted} aborted`);
+    return result;
+  }
+
+  /**
+   * Wait until every pending operation has settled, or the timeout passes
+   */
+  private async waitForOperations(timeoutMs: number): Promise<void> {
+    if (this.getPendingOperations() === 0) {
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(() => {
+        this.idleWaiter = null;
+        resolve();
+      }, timeoutMs);
+      this.idleWaiter = () => {
+        clearTimeout(timer);
+        this.idleWaiter = null;
+        resolve();
+      };
+    });
   }
 
   /**
    * Get the underlying Prisma client with automatic reconnection wrapper
+   *
+   * The returned handle is stable: it resolves the current PrismaClient on every call,
+   * so it keeps working after a hard reset replaces the underlying instance.
+   * It is safe to call once at startup and export the result.
    */
   public getClient(): PrismaClient {
-    // Return a Proxy that wraps all methods with reconnection logic
-    return new Proxy(this.prisma, {
-      get: (target: any, prop: string) => {
+    if (!this.clientHandle) {
+      this.clientHandle = this.createClientHandle();
+    }
+    return this.clientHandle;
+  }
+
+  /**
+   * Build the Proxy behind getClient() that wraps all methods with reconnection logic
+   */
+  private createClientHandle(): PrismaClient {
+    const current = (): any => this.prisma;
+
+    return new Proxy({} as any, {
+      get: (_target: any, prop: string | symbol) => {
+        const target = current();
         const original = target[prop];
 
+        if (typeof prop === 'symbol') {
+          return original;
+        }
+
         // If it's a model delegate (user, session, etc.)
         if (typeof original === 'object' && original !== null && !prop.startsWith('$')) {
           return new Proxy(original, {
-            get: (modelTarget: any, modelProp: string) => {
-              const modelMethod = modelTarget[modelProp];
+            get: (_modelTarget: any, modelProp: string | symbol) => {
+              const modelMethod = current()[prop][modelProp];
 
-              // If it's a method, wrap it
-              if (typeof modelMethod === 'function') {
+              // If it's a method, wrap it while keeping PrismaPromise semantics
+              // The delegate is resolved per attempt, so retries after a hard reset use the new client
+              if (typeof modelMethod === 'function' && typeof modelProp === 'string') {
                 return (...args: any[]) => {
-                  return this.executeWithReconnect(
-                    async () => await modelMethod.apply(modelTarget, args),
+                  return this.createLazyOperation(
+                    () => current()[prop][modelProp](...args),
                     `${prop}.${modelProp}`
                   );
                 };
@@ -568,14 +2102,28 @@ export class ResilientPrismaClient extends EventEmitter {
           if (prop === '$disconnect') {
             return () => this.disconnect();
           }
+          if (prop === '$transaction') {
+            return (...args: any[]) => {
+              if (typeof args[0] === 'function') {
+                return this.executeTransaction(args[0], args[1]);
+              }
+              // Batch transaction: the lazy operations in the array are re-requested on every attempt
+              return this.executeWithReconnect(
+                async () => await current().$transaction(...args),
+                prop
+              );
+            };
+          }
 
-          // Wrap other $ methods with reconnection
-          return (...args: any[]) => {
-            return this.executeWithReconnect(
-              async () => await original.apply(target, args),
-              prop
-            );
-          };
+          // Raw queries return PrismaPromises too, so they can take part in batch transactions
+          if (PRISMA_PROMISE_METHODS.includes(prop)) {
+            return (...args: any[]) => {
+              return this.createLazyOperation(() => current()[prop](...args), prop);
+            };
+          }
+
+          // $on, $use, $extends, ... are not queries
+          return original.bind(target);
         }
 
         return original;
@@ -583,6 +2131,17 @@ export class ResilientPrismaClient extends EventEmitter {
     }) as PrismaClient;
   }
 
+  /**
+   * Create a lazy PrismaPromise-compatible operation that runs with reconnection when awaited
+   * Call options are captured now, since the operation may be awaited outside withOptions()
+   */
+  private createLazyOperation(create: () => any, operationName: string): any {
+    const callOptions = this.callContext.getStore();
+    return createResilientPromise(create, (operation) =>
+      this.executeWithReconnect(operation, operationName, callOptions)
+    );
+  }
+
   /**
    * Type-safe event listeners
    */
@@ -0,0 +1,63 @@
+/**
+ * RetryBudget - Cap retries to a fraction of normal traffic
+ */
+
+import type { ResilientConfig } from './types';
+
+export type RetryBudgetOptions = Required<Omit<NonNullable<ResilientConfig['retryBudget']>, 'enabled'>>;
+
+/**
+ * Token bucket for retries
+ *
+ * Every operation deposits `ratio` tokens and the bucket refills by
+ * `minRetriesPerSecond` tokens every second, up to `maxTokens`.
+ * A retry withdraws one token; when none is left the retry is denied.
+ */
+export class RetryBudget {
+  private tokens: number;
+  private lastRefillAt: number = Date.now();
+  private rejections: number = 0;
+
+  constructor(private readonly options: RetryBudgetOptions) {
+    this.tokens = Math.min(options.minRetriesPerSecond, options.maxTokens);
+  }
+
+  /**
+   * Record an operation (first attempt), depositing `ratio` tokens
+   */
+  public recordRequest(): void {
+    this.refill();
+    this.tokens = Math.min(this.options.maxTokens, this.tokens + this.options.ratio);
+  }
+
+  /**
+   * Withdraw a token for a retry
+   * @returns false if the budget is exhausted and the retry must not run
+   */
+  public tryAcquire(): boolean {
+    this.refill();
+    if (this.tokens >= 1) {
+      this.tokens--;
+      return true;
+    }
+    this.rejections++;
+    return false;
+  }
+
+  /**
+   * Number of retries denied so far
+   */
+  public getRejections(): number {
+    return this.rejections;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsedSeconds = (now - this.lastRefillAt) / 1000;
+    this.lastRefillAt = now;
+    this.tokens = Math.min(
+      this.options.maxTokens,
+      this.tokens + elapsedSeconds * this.options.minRetriesPerSecond
+    );
+  }
+}
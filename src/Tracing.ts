@@ -0,0 +1,128 @@
+/**
+ * Tracing - OpenTelemetry spans through the optional @opentelemetry/api peer dependency
+ */
+
+import type { ResilientConfig, TraceAttributes, TraceSpan, TraceTracer } from './types';
+
+export type TracingOptions = NonNullable<ResilientConfig['tracing']>;
+
+// Values of the OpenTelemetry SpanKind and SpanStatusCode enums
+const SPAN_KIND_INTERNAL = 0;
+const SPAN_KIND_CLIENT = 2;
+const STATUS_CODE_ERROR = 2;
+
+/**
+ * The parts of @opentelemetry/api used for tracers and context propagation
+ */
+interface OpenTelemetryApi {
+  trace: {
+    getTracer(name: string): TraceTracer;
+    setSpan(context: unknown, span: TraceSpan): unknown;
+  };
+  context: {
+    active(): unknown;
+    with<T>(context: unknown, fn: () => T): T;
+  };
+}
+
+const NOOP_SPAN: TraceSpan = {
+  setAttribute: () => NOOP_SPAN,
+  addEvent: () => NOOP_SPAN,
+  recordException: () => undefined,
+  setStatus: () => NOOP_SPAN,
+  end: () => undefined,
+};
+
+/**
+ * Creates the client's spans
+ *
+ * Operation spans are CLIENT spans made active while the operation runs, so spans of
+ * Prisma's own instrumentation nest under them. Recovery spans are INTERNAL spans,
+ * children of the operation span that started the recovery. Without a tracer every
+ * span is a shared no-op.
+ */
+export class Tracing {
+  private readonly api: OpenTelemetryApi | null;
+  private readonly tracer: TraceTracer | null;
+
+  constructor(options: TracingOptions) {
+    if (options.enabled === false) {
+      this.api = null;
+      this.tracer = null;
+      return;
+    }
+    this.api = loadOpenTelemetryApi();
+    this.tracer = options.tracer ?? this.api?.trace.getTracer(options.tracerName ?? 'prisma-resilient-client') ?? null;
+  }
+
+  /**
+   * Start the span of an operation, a child of the active span
+   */
+  public startOperationSpan(name: string, attributes: TraceAttributes): TraceSpan {
+    if (!this.tracer) {
+      return NOOP_SPAN;
+    }
+    return this.tracer.startSpan(name, { kind: SPAN_KIND_CLIENT, attributes });
+  }
+
+  /**
+   * Start an internal span, a child of `parent` when given and of the active span otherwise
+   */
+  public startSpan(name: string, attributes: TraceAttributes, parent?: TraceSpan): TraceSpan {
+    if (!this.tracer) {
+      return NOOP_SPAN;
+    }
+    const context = parent && this.api ? this.api.trace.setSpan(this.api.context.active(), parent) : undefined;
+    return this.tracer.startSpan(name, { kind: SPAN_KIND_INTERNAL, attributes }, context);
+  }
+
+  /**
+   * Run fn in a new internal span, ended once fn settles
+   */
+  public async trace<T>(
+    name: string,
+    attributes: TraceAttributes,
+    parent: TraceSpan | undefined,
+    fn: (span: TraceSpan) => Promise<T>
+  ): Promise<T> {
+    const span = this.startSpan(name, attributes, parent);
+    try {
+      const result = await this.withSpan(span, () => fn(span));
+      this.endSpan(span);
+      return result;
+    } catch (error) {
+      this.endSpan(span, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Run fn with span as the active span
+   */
+  public withSpan<T>(span: TraceSpan, fn: () => T): T {
+    if (!this.api || span === NOOP_SPAN) {
+      return fn();
+    }
+    return this.api.context.with(this.api.trace.setSpan(this.api.context.active(), span), fn);
+  }
+
+  /**
+   * End a span, recording the error and an error status if it failed
+   */
+  public endSpan(span: TraceSpan, error?: unknown): void {
+    if (error !== undefined) {
+      span.recordException(error instanceof Error ? error : String(error));
+      span.setStatus({ code: STATUS_CODE_ERROR, message: error instanceof Error ? error.message : String(error) });
+    }
+    span.end();
+  }
+}
+
+function loadOpenTelemetryApi(): OpenTelemetryApi | null {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires -- optional peer dependency, loaded only when installed
+    return require('@opentelemetry/api');
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * WaitQueue - Bounded queue for operations waiting on a reconnect
+ */
+
+import type { ResilientConfig } from './types';
+import { QueueRejectedError } from './errors';
+
+export type WaitQueueOptions = Required<Omit<NonNullable<ResilientConfig['queue']>, 'enabled'>>;
+
+/**
+ * Builds the error for a rejected entry
+ */
+export type QueueRejection = (operation: string, reason: 'full' | 'timeout', waitedMs: number) => Error;
+
+/**
+ * Wait queue statistics
+ */
+export interface WaitQueueStats {
+  depth: number;
+  totalQueued: number;
+  rejections: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+}
+
+interface QueueEntry {
+  operation: string;
+  priority: number;
+  enqueuedAt: number;
+  timer: NodeJS.Timeout;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Bounded wait queue
+ *
+ * Holds at most `maxSize` entries; each entry is rejected (QueueRejectedError by
+ * default) once it has waited `maxWaitMs`. release() lets every waiting entry go in FIFO
+ * order, or by descending priority when `order` is 'priority'; releaseNext()
+ * lets only the first one go.
+ */
+export class WaitQueue {
+  private entries: QueueEntry[] = [];
+  private totalQueued: number = 0;
+  private rejections: number = 0;
+  private totalReleased: number = 0;
+  private totalWaitMs: number = 0;
+  private maxWaitMs: number = 0;
+
+  constructor(
+    private readonly options: WaitQueueOptions,
+    private readonly createRejection: QueueRejection = (operation, reason, waitedMs) =>
+      new QueueRejectedError(operation, reason, waitedMs)
+  ) {}
+
+  /**
+   * Wait until the queue is released
+   * Rejects immediately when the queue is full
+   */
+  public enqueue(operation: string, priority: number = 0): Promise<void> {
+    if (this.entries.length >= this.options.maxSize) {
+      this.rejections++;
+      return Promise.reject(this.createRejection(operation, 'full', 0));
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const entry: QueueEntry = {
+        operation,
+        priority,
+        enqueuedAt: Date.now(),
+        timer: setTimeout(() => {
+          this.remove(entry);
+          this.rejections++;
+          reject(this.createRejection(operation, 'timeout', Date.now() - entry.enqueuedAt));
+        }, this.options.maxWaitMs),
+        resolve,
+        reject,
+      };
+      this.insert(entry);
+      this.totalQueued++;
+    });
+  }
+
+  /**
+   * Let every waiting operation go, in release order
+   */
+  public release(): void {
+    const entries = this.entries;
+    this.entries = [];
+
+    for (const entry of entries) {
+      this.releaseEntry(entry);
+    }
+  }
+
+  /**
+   * Let the first waiting operation go
+   * @returns false if no operation was waiting
+   */
+  public releaseNext(): boolean {
+    const entry = this.entries.shift();
+    if (!entry) {
+      return false;
+    }
+    this.releaseEntry(entry);
+    return true;
+  }
+
+  /**
+   * Fail every waiting operation with the given error
+   */
+  public rejectAll(error: Error): void {
+    const entries = this.entries;
+    this.entries = [];
+
+    for (const entry of entries) {
+      clearTimeout(entry.timer);
+      entry.reject(error);
+    }
+  }
+
+  /**
+   * Number of operations currently waiting
+   */
+  public getDepth(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Get queue statistics
+   */
+  public getStats(): WaitQueueStats {
+    return {
+      depth: this.entries.length,
+      totalQueued: this.totalQueued,
+      rejections: this.rejections,
+      averageWaitMs: this.totalReleased > 0 ? Math.round(this.totalWaitMs / this.totalReleased) : 0,
+      maxWaitMs: this.maxWaitMs,
+    };
+  }
+
+  /**
+   * Insert an entry at its release position
+   * Entries of equal priority keep their arrival order
+   */
+  private insert(entry: QueueEntry): void {
+    if (this.options.order !== 'priority') {
+      this.entries.push(entry);
+      return;
+    }
+
+    let index = this.entries.length;
+    while (index > 0 && this.entries[index - 1].priority < entry.priority) {
+      index--;
+    }
+    this.entries.splice(index, 0, entry);
+  }
+
+  private releaseEntry(entry: QueueEntry): void {
+    clearTimeout(entry.timer);
+    const waitMs = Date.now() - entry.enqueuedAt;
+    this.totalReleased++;
+    this.totalWaitMs += waitMs;
+    this.maxWaitMs = Math.max(this.maxWaitMs, waitMs);
+    entry.resolve();
+  }
+
+  private remove(entry: QueueEntry): void {
+    const index = this.entries.indexOf(entry);
+    if (index !== -1) {
+      this.entries.splice(index, 1);
+    }
+  }
+}
@@ -0,0 +1,260 @@
+/**
+ * Error classes thrown by ResilientPrismaClient
+ */
+
+/**
+ * Context carried by every ResilientPrismaError
+ */
+export interface ResilientPrismaErrorDetails {
+  /**
+   * Name of the operation that failed (e.g. `user.findMany`), or `reconnect` / `hard-reset`
+   */
+  operation?: string;
+
+  /**
+   * Number of attempts made before giving up
+   */
+  attempts?: number;
+
+  /**
+   * Milliseconds spent before giving up
+   */
+  elapsedMs?: number;
+
+  /**
+   * Underlying error, such as the last Prisma error
+   */
+  cause?: unknown;
+}
+
+/**
+ * Base class for all errors raised by ResilientPrismaClient itself
+ */
+export class ResilientPrismaError extends Error {
+  /**
+   * Name of the operation that failed (e.g. `user.findMany`), or `reconnect` / `hard-reset`
+   */
+  public readonly operation: string;
+
+  /**
+   * Number of attempts made before giving up
+   */
+  public readonly attempts: number;
+
+  /**
+   * Milliseconds spent before giving up
+   */
+  public readonly elapsedMs: number;
+
+  /**
+   * Underlying error, such as the last Prisma error
+   */
+  public readonly cause?: unknown;
+
+  constructor(message: string, details: ResilientPrismaErrorDetails = {}) {
+    super(message);
+    this.name = 'ResilientPrismaError';
+    this.operation = details.operation ?? 'unknown';
+    this.attempts = details.attempts ?? 0;
+    this.elapsedMs = details.elapsedMs ?? 0;
+    if (details.cause !== undefined) {
+      this.cause = details.cause;
+    }
+  }
+}
+
+/**
+ * Thrown when the reconnect loop gives up
+ * `cause` is the error of the final attempt, so its Prisma error code is preserved
+ */
+export class ReconnectFailedError extends ResilientPrismaError {
+  constructor(details: Omit<ResilientPrismaErrorDetails, 'operation'> = {}) {
+    super(
+      `Failed to reconnect after ${details.attempts ?? 0} attempts` +
+        (details.cause instanceof Error ? `: ${details.cause.message}` : ''),
+      { ...details, operation: 'reconnect' }
+    );
+    this.name = 'ReconnectFailedError';
+  }
+}
+
+/**
+ * Thrown when a hard reset cannot replace the PrismaClient instance
+ * - no-factory: no PrismaClient factory was passed to the constructor
+ * - connect-failed: the new instance failed to connect or warm up; the current one keeps serving
+ */
+export class HardResetError extends ResilientPrismaError {
+  /**
+   * Why the hard reset failed
+   */
+  public readonly reason: 'no-factory' | 'connect-failed';
+
+  constructor(
+    reason: 'no-factory' | 'connect-failed',
+    details: Omit<ResilientPrismaErrorDetails, 'operation'> = {}
+  ) {
+    super(
+      reason === 'no-factory'
+        ? 'Hard reset not available: PrismaClient factory function not provided. ' +
+            'Please pass a factory function to the constructor to enable hard reset.'
+        : 'Hard reset failed, keeping the current PrismaClient' +
+            (details.cause instanceof Error ? `: ${details.cause.message}` : ''),
+      { ...details, operation: 'hard-reset' }
+    );
+    this.name = 'HardResetError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Thrown when the circuit breaker is open and operations fail fast
+ */
+export class CircuitOpenError extends ResilientPrismaError {
+  /**
+   * Milliseconds until the circuit allows trial requests again
+   */
+  public readonly retryAfterMs: number;
+
+  constructor(operation: string, retryAfterMs: number, details: Omit<ResilientPrismaErrorDetails, 'operation'> = {}) {
+    super(`Circuit breaker is open: ${operation} rejected (retry after ${retryAfterMs}ms)`, {
+      ...details,
+      operation,
+    });
+    this.name = 'CircuitOpenError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Thrown when an operation cannot wait in the wait queue for the connection to come back
+ * - full: the queue already holds `queue.maxSize` operations
+ * - timeout: the operation waited longer than `queue.maxWaitMs`
+ */
+export class QueueRejectedError extends ResilientPrismaError {
+  /**
+   * Why the operation was rejected
+   */
+  public readonly reason: 'full' | 'timeout';
+
+  /**
+   * Milliseconds the operation spent in the queue
+   */
+  public readonly waitedMs: number;
+
+  constructor(operation: string, reason: 'full' | 'timeout', waitedMs: number) {
+    super(
+      reason === 'full'
+        ? `Wait queue is full: ${operation} rejected`
+        : `Timed out after ${waitedMs}ms in the wait queue: ${operation} rejected`,
+      { operation, elapsedMs: waitedMs }
+    );
+    this.name = 'QueueRejectedError';
+    this.reason = reason;
+    this.waitedMs = waitedMs;
+  }
+}
+
+/**
+ * Thrown when a bulkhead cannot admit an operation
+ * - full: the bulkhead's queue already holds `maxQueueSize` operations
+ * - timeout: the operation waited longer than `queueTimeoutMs` for a free slot
+ */
+export class BulkheadRejectedError extends ResilientPrismaError {
+  /**
+   * Name of the bulkhead (`global` or the group name)
+   */
+  public readonly bulkhead: string;
+
+  /**
+   * Why the operation was rejected
+   */
+  public readonly reason: 'full' | 'timeout';
+
+  /**
+   * Milliseconds the operation spent waiting for a slot
+   */
+  public readonly waitedMs: number;
+
+  constructor(bulkhead: string, operation: string, reason: 'full' | 'timeout', waitedMs: number) {
+    super(
+      reason === 'full'
+        ? `Bulkhead "${bulkhead}" is saturated: ${operation} rejected`
+        : `Timed out after ${waitedMs}ms waiting for bulkhead "${bulkhead}": ${operation} rejected`,
+      { operation, elapsedMs: waitedMs }
+    );
+    this.name = 'BulkheadRejectedError';
+    this.bulkhead = bulkhead;
+    this.reason = reason;
+    this.waitedMs = waitedMs;
+  }
+}
+
+/**
+ * Thrown when an operation does not finish before its deadline
+ * The deadline covers the query plus all reconnect, queueing and retry time;
+ * `cause` is the last error the operation ran into, if any
+ */
+export class QueryTimeoutError extends ResilientPrismaError {
+  /**
+   * Deadline of the operation in milliseconds
+   */
+  public readonly timeoutMs: number;
+
+  constructor(operation: string, timeoutMs: number, details: Omit<ResilientPrismaErrorDetails, 'operation'> = {}) {
+    super(`${operation} did not complete within ${timeoutMs}ms`, { elapsedMs: timeoutMs, ...details, operation });
+    this.name = 'QueryTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Thrown when an operation is cancelled through its AbortSignal
+ */
+export class OperationAbortedError extends ResilientPrismaError {
+  /**
+   * The signal's abort reason
+   */
+  public readonly reason: unknown;
+
+  constructor(operation: string, reason: unknown, details: Omit<ResilientPrismaErrorDetails, 'operation'> = {}) {
+    super(`${operation} was aborted`, { ...details, operation });
+    this.name = 'OperationAbortedError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Thrown by create() and ready() when the first connection cannot be established
+ * In 'fail-fast' startup mode after one attempt, in 'wait' mode once `startup.timeoutMs` has passed
+ */
+export class StartupError extends ResilientPrismaError {
+  constructor(details: Omit<ResilientPrismaErrorDetails, 'operation'> = {}) {
+    super(
+      `Failed to connect on startup after ${details.attempts ?? 0} attempt(s)` +
+        (details.cause instanceof Error ? `: ${details.cause.message}` : ''),
+      { ...details, operation: 'startup' }
+    );
+    this.name = 'StartupError';
+  }
+}
+
+/**
+ * Thrown for operations started after shutdown() was called, and by a reconnect
+ * loop cancelled by shutdown
+ */
+export class ShutdownError extends ResilientPrismaError {
+  constructor(operation: string) {
+    super(`Client is shutting down: ${operation} rejected`, { operation });
+    this.name = 'ShutdownError';
+  }
+}
+
+/**
+ * Thrown for operations started while the client is paused in 'reject' mode
+ */
+export class PausedError extends ResilientPrismaError {
+  constructor(operation: string) {
+    super(`Client is paused for maintenance: ${operation} rejected`, { operation });
+    this.name = 'PausedError';
+  }
+}
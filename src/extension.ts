@@ -0,0 +1,77 @@
+/**
+ * Prisma Client extension - resilience via prisma.$extends(resilient(config))
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import type { QueryOptionsCbArgs } from '@prisma/client/runtime/library';
+import { ResilientPrismaClient } from './ResilientPrismaClient';
+import type { ResilientConfig } from './types';
+
+/**
+ * Arguments Prisma passes to a `$allOperations` query extension
+ * Prisma also passes the request's internal parameters next to the documented fields
+ */
+type AllOperationsParams = QueryOptionsCbArgs & {
+  __internalParams?: { transaction?: unknown };
+};
+
+/**
+ * Build the operation name used for stats and retry policy, matching getClient()
+ * e.g. model `User` + operation `findMany` -> `user.findMany`
+ */
+function getOperationName(model: string | undefined, operation: string): string {
+  if (!model) {
+    return operation;
+  }
+  return `${model.charAt(0).toLowerCase()}${model.slice(1)}.${operation}`;
+}
+
+/**
+ * Check if a query runs inside an interactive or batch `$transaction`
+ * Prisma has no public API for this. `__internalParams.transaction` is internal and was
+ * verified against @prisma/client 5.22, so re-check this on Prisma upgrades.
+ */
+function isInTransaction(params: AllOperationsParams): boolean {
+  return Boolean(params.__internalParams?.transaction);
+}
+
+/**
+ * Create a Prisma Client extension with reconnect, retry, stats and the onError hook
+ *
+ * The extension creates a ResilientPrismaClient around the client it extends and exposes it
+ * as `$resilient`, for events, stats, health checks and shutdown. Hard reset is not available
+ * in extension mode because the extended client cannot be recreated.
+ *
+ * `$transaction` goes through the same wrapper as getClient(): interactive transactions are
+ * retried as a unit and batches re-run on reconnect. Queries inside a transaction skip the
+ * per-query wrapper, so a failure never retries one query of a transaction on its own.
+ *
+ * @example
+ * const prisma = new PrismaClient().$extends(resilient({ reconnect: { maxAttempts: 5 } }));
+ * await prisma.user.findMany();
+ * prisma.$resilient.on('reconnect:success', () => console.log('reconnected'));
+ */
+export function resilient(config?: ResilientConfig) {
+  return Prisma.defineExtension((client) => {
+    const resilientClient = new ResilientPrismaClient(client as unknown as PrismaClient, config);
+    const handle = resilientClient.getClient();
+
+    return client.$extends({
+      name: 'prisma-resilient-client',
+      client: {
+        $resilient: resilientClient,
+        $transaction: ((...args: Parameters<PrismaClient['$transaction']>) =>
+          handle.$transaction(...args)) as typeof client.$transaction,
+      },
+      query: {
+        $allOperations(params: AllOperationsParams) {
+          const { model, operation, args, query } = params;
+          if (isInTransaction(params)) {
+            return query(args);
+          }
+          return resilientClient.execute(() => query(args), getOperationName(model, operation));
+        },
+      },
+    });
+  });
+}
@@ -0,0 +1,174 @@
+/**
+ * HTTP probe handlers - liveness, readiness and stats for Node http, Express and Fastify
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { ResilientPrismaClient } from './ResilientPrismaClient';
+import type { ConnectionStats, NotReadyReason, ProbeBody, ProbeOptions, ProbeResponse } from './types';
+
+/**
+ * Framework-neutral probes returning a status code and a JSON body
+ */
+export interface Probes {
+  /**
+   * Liveness: the process and the client are up; never touches the database,
+   * so an outage does not get the process restarted
+   */
+  liveness(): ProbeResponse;
+
+  /**
+   * Readiness: the client can serve traffic right now
+   */
+  readiness(): Promise<ProbeResponse>;
+
+  /**
+   * Connection statistics
+   */
+  stats(): ProbeResponse<ConnectionStats>;
+}
+
+/**
+ * Request handler for Node `http` and Express
+ */
+export type NodeProbeHandler = (req: IncomingMessage, res: ServerResponse) => Promise<void>;
+
+/**
+ * The subset of Fastify's reply used by the Fastify handlers
+ */
+export interface FastifyReplyLike {
+  code(statusCode: number): FastifyReplyLike;
+  header(name: string, value: string): FastifyReplyLike;
+  send(payload: unknown): FastifyReplyLike;
+}
+
+/**
+ * Route handler for Fastify
+ */
+export type FastifyProbeHandler = (request: unknown, reply: FastifyReplyLike) => Promise<FastifyReplyLike>;
+
+/**
+ * Create framework-neutral probes for a client
+ *
+ * Readiness fails while the client is shutting down, paused, reconnecting or disconnected,
+ * without running a query; otherwise it runs healthCheck() unless `healthCheck` is false,
+ * and fails after `failureThreshold` failed checks in a row or while the health state is unhealthy.
+ */
+export function createProbes(client: ResilientPrismaClient, options: ProbeOptions = {}): Probes {
+  const ok = options.statusCodes?.ok ?? 200;
+  const unavailable = options.statusCodes?.unavailable ?? 503;
+  const includeStats = options.includeStats ?? true;
+  const runHealthCheck = options.healthCheck ?? true;
+  const failureThreshold = options.failureThreshold ?? 3;
+
+  // Readiness counts its own failed checks, since probe checks do not move the health state
+  let consecutiveFailures = 0;
+
+  const respond = (statusCode: number, body: ProbeBody): ProbeResponse => ({
+    statusCode,
+    body: includeStats ? { ...body, stats: client.getConnectionStats() } : body,
+  });
+
+  const getNotReadyReason = (): NotReadyReason | undefined => {
+    if (client.isShuttingDown()) {
+      return 'shutting-down';
+    }
+    if (client.isPaused()) {
+      return 'paused';
+    }
+    if (client.isReconnecting()) {
+      return 'reconnecting';
+    }
+    if (!client.isConnected()) {
+      return 'disconnected';
+    }
+    return undefined;
+  };
+
+  return {
+    liveness() {
+      return client.isShuttingDown()
+        ? respond(unavailable, { status: 'shutting-down' })
+        : respond(ok, { status: 'ok' });
+    },
+
+    async readiness() {
+      const reason = getNotReadyReason();
+      if (reason) {
+        return respond(unavailable, { status: 'not-ready', reason });
+      }
+      if (!runHealthCheck) {
+        return respond(ok, { status: 'ready' });
+      }
+
+      // Probes run far more often than healthCheck.intervalMs, so they must not move the health state
+      const health = await client.healthCheck({ record: false });
+      consecutiveFailures = health.status === 'unhealthy' ? consecutiveFailures + 1 : 0;
+      const unhealthy = health.state === 'unhealthy' || consecutiveFailures >= failureThreshold;
+      // The client may have started reconnecting or shutting down during the check
+      const reasonAfter = getNotReadyReason() ?? (unhealthy ? 'unhealthy' : undefined);
+      return reasonAfter
+        ? respond(unavailable, { status: 'not-ready', reason: reasonAfter, health })
+        : respond(ok, { status: 'ready', health });
+    },
+
+    stats() {
+      return { statusCode: ok, body: client.getConnectionStats() };
+    },
+  };
+}
+
+/**
+ * Create probe handlers for Node `http` and Express
+ * @example
+ * const probes = createHttpHandlers(resilientClient);
+ * app.get('/livez', probes.liveness);
+ * app.get('/readyz', probes.readiness);
+ * app.get('/stats', probes.stats);
+ */
+export function createHttpHandlers(
+  client: ResilientPrismaClient,
+  options?: ProbeOptions
+): Record<keyof Probes, NodeProbeHandler> {
+  const probes = createProbes(client, options);
+
+  const handler = (probe: () => ProbeResponse<unknown> | Promise<ProbeResponse<unknown>>): NodeProbeHandler =>
+    async (_req, res) => {
+      const { statusCode, body } = await probe();
+      res.statusCode = statusCode;
+      res.setHeader('Content-Type', 'application/json; charset=utf-8');
+      res.setHeader('Cache-Control', 'no-store');
+      res.end(JSON.stringify(body));
+    };
+
+  return {
+    liveness: handler(probes.liveness),
+    readiness: handler(probes.readiness),
+    stats: handler(probes.stats),
+  };
+}
+
+/**
+ * Create probe handlers for Fastify
+ * @example
+ * const probes = createFastifyHandlers(resilientClient);
+ * fastify.get('/livez', probes.liveness);
+ * fastify.get('/readyz', probes.readiness);
+ */
+export function createFastifyHandlers(
+  client: ResilientPrismaClient,
+  options?: ProbeOptions
+): Record<keyof Probes, FastifyProbeHandler> {
+  const probes = createProbes(client, options);
+
+  const handler = (probe: () => ProbeResponse<unknown> | Promise<ProbeResponse<unknown>>): FastifyProbeHandler =>
+    async (_request, reply) => {
+      const { statusCode, body } = await probe();
+      return reply.code(statusCode).header('Cache-Control', 'no-store').send(body);
+    };
+
+  return {
+    liveness: handler(probes.liveness),
+    readiness: handler(probes.readiness),
+    stats: handler(probes.stats),
+  };
+}
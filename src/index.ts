@@ -4,6 +4,27 @@
  */
 
 export { ResilientPrismaClient } from './ResilientPrismaClient';
+export { resilient } from './extension';
+export { createProbes, createHttpHandlers, createFastifyHandlers } from './http';
+export type { Probes, NodeProbeHandler, FastifyProbeHandler, FastifyReplyLike } from './http';
+export { createMetrics, createMetricsRegistry, createPromClientRegistry } from './metrics';
+export type { Metrics, PromClientLike, PromClientRegistryLike, PromClientMetricConfig } from './metrics';
+export {
+  ResilientPrismaError,
+  ReconnectFailedError,
+  HardResetError,
+  CircuitOpenError,
+  QueueRejectedError,
+  BulkheadRejectedError,
+  QueryTimeoutError,
+  OperationAbortedError,
+  StartupError,
+  ShutdownError,
+  PausedError,
+} from './errors';
+export type { ResilientPrismaErrorDetails } from './errors';
+export { classifyError, createErrorClassifier, RULE_PACKS } from './utils';
+export type { ErrorClassifier, ErrorClassifierOptions } from './utils';
 export type {
   ResilientConfig,
   Logger,
@@ -11,4 +32,41 @@ export type {
   ConnectionStats,
   HealthCheckResult,
   ResilientPrismaEvents,
+  CircuitState,
+  QueueOrder,
+  BackoffStrategy,
+  BackoffFunction,
+  BulkheadGroup,
+  BulkheadStats,
+  StartupMode,
+  ShutdownResult,
+  ShutdownHandlerOptions,
+  PauseMode,
+  PauseOptions,
+  MaintenanceWindow,
+  NotReadyReason,
+  ProbeOptions,
+  ProbeBody,
+  ProbeResponse,
+  HealthProbe,
+  HealthProbeResult,
+  HealthState,
+  HealthHistoryEntry,
+  OperationOutcome,
+  OperationResult,
+  OperationStats,
+  LatencyPercentiles,
+  MetricsOptions,
+  MetricsRegistry,
+  MetricLabels,
+  TraceTracer,
+  TraceSpan,
+  TraceAttributes,
+  RefreshMode,
+  RefreshResult,
+  DatabaseProvider,
+  ErrorClassification,
+  ErrorRule,
+  PrismaErrorClassName,
+  CallOptions,
 } from './types';
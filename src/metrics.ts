@@ -0,0 +1,309 @@
+/**
+ * Prometheus metrics - counters, gauges and latency histograms in Prometheus text format
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { ResilientPrismaClient } from './ResilientPrismaClient';
+import type { MetricLabels, MetricsOptions, MetricsRegistry, ResilientPrismaEvents } from './types';
+
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const CIRCUIT_STATES = ['closed', 'open', 'half-open'];
+const HEALTH_STATES = ['healthy', 'degraded', 'unhealthy'];
+
+/**
+ * Metrics of one client
+ */
+export interface Metrics {
+  /**
+   * Registry the metrics are registered in
+   */
+  readonly registry: MetricsRegistry;
+
+  /**
+   * Every metric in the registry in Prometheus text format, with gauges updated first
+   */
+  metrics(): Promise<string>;
+
+  /**
+   * Request handler for Node `http` and Express serving metrics()
+   */
+  handler(req: IncomingMessage, res: ServerResponse): Promise<void>;
+
+  /**
+   * Stop recording; the client's listeners are removed
+   */
+  stop(): void;
+}
+
+/**
+ * The parts of a prom-client registry used by createPromClientRegistry()
+ */
+export interface PromClientRegistryLike {
+  readonly contentType: string;
+  metrics(): Promise<string>;
+}
+
+/**
+ * Configuration passed to the prom-client metric constructors
+ */
+export interface PromClientMetricConfig<TRegistry extends PromClientRegistryLike> {
+  name: string;
+  help: string;
+  labelNames: string[];
+  registers: TRegistry[];
+}
+
+/**
+ * The parts of the prom-client module used by createPromClientRegistry()
+ */
+export interface PromClientLike<TRegistry extends PromClientRegistryLike> {
+  register: TRegistry;
+  Counter: new (config: PromClientMetricConfig<TRegistry>) => { inc(labels: MetricLabels, value?: number): void };
+  Gauge: new (config: PromClientMetricConfig<TRegistry>) => { set(labels: MetricLabels, value: number): void };
+  Histogram: new (config: PromClientMetricConfig<TRegistry> & { buckets: number[] }) => {
+    observe(labels: MetricLabels, value: number): void;
+  };
+}
+
+/**
+ * Create Prometheus metrics for a client
+ *
+ * Counters and histograms are recorded from client events from this call on; gauges are
+ * read from getConnectionStats() on every scrape. Operations are labeled by `model.method`
+ * and outcome.
+ *
+ * @example
+ * const metrics = createMetrics(resilientClient);
+ * app.get('/metrics', metrics.handler);
+ */
+export function createMetrics(client: ResilientPrismaClient, options: MetricsOptions = {}): Metrics {
+  const registry = options.registry ?? createMetricsRegistry();
+  const prefix = options.prefix ?? 'prisma_resilient_';
+  const buckets = options.buckets ?? DEFAULT_BUCKETS;
+
+  const operations = registry.counter(`${prefix}operations_total`, 'Operations by outcome', ['operation', 'outcome']);
+  const errors = registry.counter(`${prefix}operation_errors_total`, 'Failed operations by error classification', [
+    'operation',
+    'classification',
+  ]);
+  const retries = registry.counter(`${prefix}operation_retries_total`, 'Attempts after the first one', ['operation']);
+  const duration = registry.histogram(
+    `${prefix}operation_duration_seconds`,
+    'Operation duration including queueing, reconnects and retries',
+    ['operation', 'outcome'],
+    buckets
+  );
+  const reconnects = registry.counter(`${prefix}reconnects_total`, 'Successful reconnects', []);
+  const hardResets = registry.counter(`${prefix}hard_resets_total`, 'PrismaClient instances replaced', []);
+  const circuitOpens = registry.counter(`${prefix}circuit_opens_total`, 'Times the circuit breaker opened', []);
+  const poolExhausted = registry.counter(`${prefix}pool_exhausted_total`, 'Connection pool timeouts', ['operation']);
+
+  const connected = registry.gauge(`${prefix}connected`, '1 if connected to the database', []);
+  const connectionAge = registry.gauge(`${prefix}connection_age_seconds`, 'Age of the PrismaClient instance', []);
+  const consecutiveErrors = registry.gauge(`${prefix}consecutive_errors`, 'Errors since the last success', []);
+  const queueDepth = registry.gauge(`${prefix}queue_depth`, 'Operations waiting for a reconnect', []);
+  const paused = registry.gauge(`${prefix}paused`, '1 if paused through pause()', []);
+  const circuitState = registry.gauge(`${prefix}circuit_state`, '1 for the current circuit breaker state', ['state']);
+  const healthState = registry.gauge(`${prefix}health_state`, '1 for the current health state', ['state']);
+
+  const listeners: Partial<ResilientPrismaEvents> = {
+    'operation:complete': (result) => {
+      const labels = { operation: result.operation, outcome: result.outcome };
+      operations.inc(labels);
+      duration.observe(labels, result.durationMs / 1000);
+      if (result.attempts > 1) {
+        retries.inc({ operation: result.operation }, result.attempts - 1);
+      }
+      if (result.classification) {
+        errors.inc({ operation: result.operation, classification: result.classification });
+      }
+    },
+    'reconnect:success': () => reconnects.inc({}),
+    'hard-reset': () => hardResets.inc({}),
+    'circuit:open': () => circuitOpens.inc({}),
+    'pool:exhausted': (operation) => poolExhausted.inc({ operation }),
+  };
+  const events = Object.keys(listeners) as Array<keyof ResilientPrismaEvents>;
+  for (const event of events) {
+    client.on(event, listeners[event]!);
+  }
+
+  const collect = () => {
+    const stats = client.getConnectionStats();
+    connected.set({}, stats.isConnected ? 1 : 0);
+    connectionAge.set({}, stats.connectionAge / 1000);
+    consecutiveErrors.set({}, stats.consecutiveErrors);
+    queueDepth.set({}, stats.queueDepth);
+    paused.set({}, stats.paused ? 1 : 0);
+    for (const state of CIRCUIT_STATES) {
+      circuitState.set({ state }, stats.circuitState === state ? 1 : 0);
+    }
+    for (const state of HEALTH_STATES) {
+      healthState.set({ state }, stats.healthState === state ? 1 : 0);
+    }
+  };
+
+  const metrics = async () => {
+    collect();
+    return registry.metrics();
+  };
+
+  return {
+    registry,
+    metrics,
+    async handler(_req, res) {
+      const body = await metrics();
+      res.statusCode = 200;
+      res.setHeader('Content-Type', registry.contentType);
+      res.end(body);
+    },
+    stop() {
+      for (const event of events) {
+        client.off(event, listeners[event]!);
+      }
+    },
+  };
+}
+
+/**
+ * Built-in registry producing Prometheus text format without any dependency
+ */
+export function createMetricsRegistry(): MetricsRegistry {
+  const metrics: Array<() => string[]> = [];
+
+  // Values by formatted label set, e.g. `{operation="user.findMany"}`
+  const register = (name: string, help: string, type: string, labelNames: string[]) => {
+    const values = new Map<string, number>();
+    metrics.push(() => [
+      ...header(name, help, type),
+      ...[...values].map(([labels, value]) => `${name}${labels} ${value}`),
+    ]);
+    return {
+      values,
+      key: (labels: MetricLabels) => formatLabels(pairLabels(labelNames, labels)),
+    };
+  };
+
+  return {
+    contentType: 'text/plain; version=0.0.4; charset=utf-8',
+
+    counter(name, help, labelNames) {
+      const { values, key } = register(name, help, 'counter', labelNames);
+      return {
+        inc(labels, value = 1) {
+          const k = key(labels);
+          values.set(k, (values.get(k) ?? 0) + value);
+        },
+      };
+    },
+
+    gauge(name, help, labelNames) {
+      const { values, key } = register(name, help, 'gauge', labelNames);
+      return {
+        set(labels, value) {
+          values.set(key(labels), value);
+        },
+      };
+    },
+
+    histogram(name, help, labelNames, buckets) {
+      const sorted = [...buckets].sort((a, b) => a - b);
+      const histograms = new Map<string, { labels: Array<[string, string]>; counts: number[]; sum: number; count: number }>();
+
+      metrics.push(() => {
+        const lines = header(name, help, 'histogram');
+        for (const { labels, counts, sum, count } of histograms.values()) {
+          sorted.forEach((bound, i) => {
+            lines.push(`${name}_bucket${formatLabels([...labels, ['le', String(bound)]])} ${counts[i]}`);
+          });
+          lines.push(`${name}_bucket${formatLabels([...labels, ['le', '+Inf']])} ${count}`);
+          lines.push(`${name}_sum${formatLabels(labels)} ${sum}`);
+          lines.push(`${name}_count${formatLabels(labels)} ${count}`);
+        }
+        return lines;
+      });
+
+      return {
+        observe(labels, value) {
+          const pairs = pairLabels(labelNames, labels);
+          const k = formatLabels(pairs);
+          let histogram = histograms.get(k);
+          if (!histogram) {
+            histogram = { labels: pairs, counts: sorted.map(() => 0), sum: 0, count: 0 };
+            histograms.set(k, histogram);
+          }
+          // Buckets are cumulative
+          sorted.forEach((bound, i) => {
+            if (value <= bound) {
+              histogram!.counts[i]++;
+            }
+          });
+          histogram.sum += value;
+          histogram.count++;
+        },
+      };
+    },
+
+    async metrics() {
+      return metrics.map((render) => render().join('\n')).join('\n\n') + '\n';
+    },
+  };
+}
+
+/**
+ * Adapter registering the metrics in a prom-client registry
+ * @param promClient - The prom-client module
+ * @param register - Registry to use (default: prom-client's global registry)
+ * @example
+ * import * as promClient from 'prom-client';
+ * createMetrics(resilientClient, { registry: createPromClientRegistry(promClient) });
+ */
+export function createPromClientRegistry<TRegistry extends PromClientRegistryLike>(
+  promClient: PromClientLike<TRegistry>,
+  register: TRegistry = promClient.register
+): MetricsRegistry {
+  return {
+    get contentType() {
+      return register.contentType;
+    },
+    counter(name, help, labelNames) {
+      const counter = new promClient.Counter({ name, help, labelNames, registers: [register] });
+      return { inc: (labels, value = 1) => counter.inc(labels, value) };
+    },
+    gauge(name, help, labelNames) {
+      const gauge = new promClient.Gauge({ name, help, labelNames, registers: [register] });
+      return { set: (labels, value) => gauge.set(labels, value) };
+    },
+    histogram(name, help, labelNames, buckets) {
+      const histogram = new promClient.Histogram({ name, help, labelNames, buckets, registers: [register] });
+      return { observe: (labels, value) => histogram.observe(labels, value) };
+    },
+    async metrics() {
+      return register.metrics();
+    },
+  };
+}
+
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${escapeHelp(help)}`, `# TYPE ${name} ${type}`];
+}
+
+function pairLabels(labelNames: string[], labels: MetricLabels): Array<[string, string]> {
+  return labelNames.map((name) => [name, labels[name] ?? '']);
+}
+
+function formatLabels(labels: Array<[string, string]>): string {
+  if (labels.length === 0) {
+    return '';
+  }
+  return `{${labels.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
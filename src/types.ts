@@ -1,3 +1,5 @@
+import type { PrismaClient } from '@prisma/client';
+
 /**
  * Configuration options for ResilientPrismaClient
  */
@@ -25,12 +27,15 @@ export interface ResilientConfig {
     maxDelay?: number;
 
     /**
-     * Backoff strategy for retry delays
+     * Backoff strategy for retry delays, or a custom backoff function
      * - linear: delay increases linearly (initialDelay * attempt)
      * - exponential: delay doubles each time (initialDelay * 2^attempt)
+     * - full-jitter: random delay up to the exponential delay
+     * - decorrelated-jitter: random delay between initialDelay and 3x the previous delay
+     * Jitter keeps a fleet of clients from reconnecting at the same moments
      * @default 'exponential'
      */
-    backoff?: 'linear' | 'exponential';
+    backoff?: BackoffStrategy | BackoffFunction;
 
     /**
      * Enable hard reset (recreate PrismaClient) on final reconnection attempt
@@ -52,6 +57,37 @@ export interface ResilientConfig {
     maxConnectionAge?: number;
   };
 
+  /**
+   * Startup settings for the first connection
+   * Await `ResilientPrismaClient.create()` or `ready()` to know whether it succeeded
+   */
+  startup?: {
+    /**
+     * - fail-fast: one connection attempt; create() and ready() reject if it fails
+     * - wait: retry with the reconnect backoff until the database is reachable or `timeoutMs` passes
+     * Either way, refresh and health check timers start so the client can recover later
+     * @default 'fail-fast'
+     */
+    mode?: StartupMode;
+
+    /**
+     * Maximum time in milliseconds to wait for the database in 'wait' mode
+     * @default 30000 (30 seconds)
+     */
+    timeoutMs?: number;
+  };
+
+  /**
+   * Graceful shutdown settings
+   */
+  shutdown?: {
+    /**
+     * Maximum time in milliseconds shutdown() waits for in-flight operations before disconnecting
+     * @default 10000 (10 seconds)
+     */
+    gracePeriodMs?: number;
+  };
+
   /**
    * Periodic connection refresh settings
    */
@@ -67,6 +103,46 @@ export interface ResilientConfig {
      * @default 300000 (5 minutes)
      */
     intervalMs?: number;
+
+    /**
+     * How the connection is refreshed
+     * - reconnect: disconnect and reconnect every interval
+     * - skip-if-active: skip the refresh while recent successful operations prove the connection is alive
+     * - idle: wait for a window with no in-flight operations, skip if none comes within idleTimeoutMs
+     * - swap: build a new PrismaClient in the background and swap it in (blue-green, requires a factory)
+     * @default 'reconnect'
+     */
+    mode?: RefreshMode;
+
+    /**
+     * skip-if-active: a successful operation within this window skips the refresh
+     * @default 60000 (1 minute)
+     */
+    activityWindowMs?: number;
+
+    /**
+     * idle: maximum time in milliseconds to wait for an idle window
+     * @default 30000 (30 seconds)
+     */
+    idleTimeoutMs?: number;
+  };
+
+  /**
+   * Maintenance windows: periodic refresh and the preventive hard reset for
+   * `reconnect.maxConnectionAge` only run inside one of these windows
+   */
+  maintenance?: {
+    /**
+     * Off-peak windows; empty means refresh and preventive hard resets may run at any time
+     * @default []
+     */
+    windows?: MaintenanceWindow[];
+
+    /**
+     * Time zone the window times are given in
+     * @default 'local'
+     */
+    timezone?: 'local' | 'utc';
   };
 
   /**
@@ -101,149 +177,1250 @@ export interface ResilientConfig {
      * @default 60000 (1 minute)
      */
     intervalMs?: number;
+
+    /**
+     * Timeout in milliseconds for each probe without its own `timeoutMs`
+     * @default 5000 (5 seconds)
+     */
+    timeoutMs?: number;
+
+    /**
+     * Custom probes run alongside the built-in database probe, such as a check that the
+     * database is writable and not a read-only replica after failover
+     * @default []
+     */
+    probes?: HealthProbe[];
+
+    /**
+     * Consecutive failed checks before the health state becomes 'degraded'
+     * @default 1
+     */
+    degradedThreshold?: number;
+
+    /**
+     * Consecutive failed checks before the health state becomes 'unhealthy'
+     * @default 3
+     */
+    unhealthyThreshold?: number;
+
+    /**
+     * Consecutive passed checks before a degraded or unhealthy state becomes 'healthy' again
+     * @default 2
+     */
+    recoveryThreshold?: number;
+
+    /**
+     * Number of recent check results kept for healthCheck({ history: true })
+     * @default 10
+     */
+    historySize?: number;
+
+    /**
+     * Recovery started once when the state becomes 'unhealthy'
+     * - none: only emit `health:change`
+     * - reconnect: mark the client disconnected and reconnect
+     * - hard-reset: replace the PrismaClient (requires a factory, otherwise reconnects)
+     * @default 'none'
+     */
+    recoveryAction?: 'none' | 'reconnect' | 'hard-reset';
   };
 
   /**
-   * Logging settings
+   * Circuit breaker settings
+   * While open, operations fail fast with CircuitOpenError instead of
+   * waiting through the reconnect loop
    */
-  logging?: {
+  circuitBreaker?: {
     /**
-     * Minimum log level
-     * @default 'info'
+     * Enable the circuit breaker
+     * @default false
      */
-    level?: 'debug' | 'info' | 'warn' | 'error';
+    enabled?: boolean;
 
     /**
-     * Custom logger instance
-     * @default console
+     * Consecutive connection failures that open the circuit
+     * @default 5
      */
-    logger?: Logger;
+    failureThreshold?: number;
+
+    /**
+     * Failure rate (0-1) over the sliding window that opens the circuit
+     * @default 0.5
+     */
+    failureRateThreshold?: number;
+
+    /**
+     * Minimum outcomes in the window before the failure rate is evaluated
+     * @default 10
+     */
+    minimumRequests?: number;
+
+    /**
+     * Number of most recent outcomes kept in the sliding window
+     * @default 20
+     */
+    windowSize?: number;
+
+    /**
+     * Time in milliseconds the circuit stays open before allowing trial requests
+     * @default 30000 (30 seconds)
+     */
+    cooldownMs?: number;
+
+    /**
+     * Number of trial requests allowed while half-open
+     * All of them must succeed to close the circuit
+     * @default 1
+     */
+    halfOpenMaxRequests?: number;
   };
 
   /**
-   * Custom error handler
-   * Called when database errors occur
+   * Retry policy for operations that fail with an ambiguous connection error,
+   * where the server may already have executed them
    */
-  onError?: (error: Error, context: ErrorContext) => void | Promise<void>;
-}
+  retryPolicy?: {
+    /**
+     * Retry writes (create, update, upsert, $executeRaw, $queryRaw, ...) after an ambiguous failure
+     * Model reads are always retried; `$queryRaw` counts as a write since it also runs
+     * `INSERT ... RETURNING` and similar statements
+     * @default false
+     */
+    retryNonIdempotent?: boolean;
 
-/**
- * Logger interface
- */
-export interface Logger {
-  debug(message: string, ...args: any[]): void;
-  info(message: string, ...args: any[]): void;
-  warn(message: string, ...args: any[]): void;
-  error(message: string, ...args: any[]): void;
-}
+    /**
+     * Per-operation overrides: true marks an operation as safe to retry, false never retries it
+     * Keys are `model.method`, `model.*` or `*.method` (e.g. `session.upsert`, `auditLog.*`, `*.deleteMany`)
+     * and raw methods such as `$queryRaw`
+     * @default {}
+     */
+    overrides?: Record<string, boolean>;
+  };
 
-/**
- * Error context passed to custom error handler
- */
-export interface ErrorContext {
   /**
-   * Name of the operation that failed
+   * Hard reset settings
+   * A hard reset is a blue-green swap: the new PrismaClient is built, connected and warmed up
+   * before it replaces the old one, which keeps serving its in-flight operations until they drain
    */
-  operation: string;
+  hardReset?: {
+    /**
+     * Called with the new, connected PrismaClient before it is swapped in
+     * Throwing aborts the hard reset and keeps the old instance
+     */
+    warmup?: (prisma: PrismaClient) => Promise<void>;
 
-  /**
-   * Number of retry attempts made
-   */
-  retryCount: number;
+    /**
+     * Maximum time in milliseconds to wait for the old instance's in-flight operations
+     * before disconnecting it
+     * @default 30000 (30 seconds)
+     */
+    drainTimeoutMs?: number;
+  };
 
   /**
-   * Duration of the operation in milliseconds
+   * Interactive transaction settings
+   * Applies to `$transaction(async (tx) => ...)` called through getClient()
    */
-  duration: number;
-}
+  transaction?: {
+    /**
+     * Maximum attempts for serialization failures, deadlocks and transaction restarts
+     * @default 3
+     */
+    maxAttempts?: number;
 
-/**
- * Connection statistics
- */
-export interface ConnectionStats {
-  /**
-   * Current connection state
-   */
-  isConnected: boolean;
+    /**
+     * Initial delay in milliseconds before retrying the transaction
+     * @default 50
+     */
+    initialDelay?: number;
 
-  /**
-   * Current number of reconnect attempts in progress
-   */
-  reconnectAttempts: number;
+    /**
+     * Maximum delay in milliseconds between transaction retries
+     * @default 1000
+     */
+    maxDelay?: number;
 
-  /**
-   * Total number of successful reconnects since start
-   */
-  totalReconnects: number;
+    /**
+     * Backoff strategy for transaction retry delays, or a custom backoff function
+     * @default 'exponential'
+     */
+    backoff?: BackoffStrategy | BackoffFunction;
+  };
 
   /**
-   * Timestamp of last successful connection
+   * Operation deadline settings
+   * A deadline covers the whole operation: bulkhead and queue waits, the query,
+   * reconnects and retries. Set per call with the `timeoutMs` call option
    */
-  lastSuccessfulConnection: string | null;
+  timeout?: {
+    /**
+     * Default deadline in milliseconds for every operation
+     * @default Infinity (no deadline)
+     */
+    defaultMs?: number;
+  };
 
   /**
-   * Uptime in milliseconds since last successful connection
+   * Pool exhaustion settings (P2024 and database "too many connections" errors)
+   * Pool exhaustion is backpressure, not a dead connection: the operation is retried
+   * after a short jittered delay and the connection is left alone
    */
-  uptime: number;
+  poolExhaustion?: {
+    /**
+     * Maximum retries of an operation that could not get a connection from the pool
+     * @default 3
+     */
+    maxRetries?: number;
 
-  /**
-   * Total number of queries executed
-   */
-  queryCount: number;
+    /**
+     * Initial delay in milliseconds before retrying
+     * @default 50
+     */
+    initialDelay?: number;
 
-  /**
-   * Total number of errors encountered
-   */
-  errorCount: number;
+    /**
+     * Maximum delay in milliseconds between retries
+     * @default 1000
+     */
+    maxDelay?: number;
 
-  /**
-   * Number of consecutive errors
-   */
-  consecutiveErrors: number;
+    /**
+     * Backoff strategy for pool exhaustion retries, or a custom backoff function
+     * @default 'full-jitter'
+     */
+    backoff?: BackoffStrategy | BackoffFunction;
 
-  /**
-   * Total number of hard resets performed
-   */
-  totalHardResets: number;
+    /**
+     * Treat pool exhaustion as a connection failure and reconnect only when pool timeouts
+     * keep occurring for this long without any successful operation
+     * @default 60000 (1 minute)
+     */
+    reconnectAfterMs?: number;
+  };
 
   /**
-   * Connection age in milliseconds
+   * Retry budget: a token bucket capping query retries to a fraction of normal traffic,
+   * so retries cannot amplify an outage
+   * Every operation adds `ratio` tokens, every retry takes one; without a token the
+   * operation fails with its original error instead of retrying
    */
-  connectionAge: number;
-}
+  retryBudget?: {
+    /**
+     * Enable the retry budget
+     * @default false
+     */
+    enabled?: boolean;
+
+    /**
+     * Retries allowed per operation (0.2 = retries may add 20% to normal traffic)
+     * @default 0.2
+     */
+    ratio?: number;
+
+    /**
+     * Tokens added every second regardless of traffic, so low-traffic clients can still retry
+     * @default 10
+     */
+    minRetriesPerSecond?: number;
+
+    /**
+     * Maximum tokens the bucket holds, bounding the burst of retries after a quiet period
+     * @default 100
+     */
+    maxTokens?: number;
+  };
 
-/**
- * Health check result
- */
-export interface HealthCheckResult {
   /**
-   * Overall health status
+   * Wait queue for operations issued while a reconnect is in progress
+   * Operations park in the queue instead of piling up behind the recovery,
+   * and are released in order once the connection is back
    */
-  status: 'healthy' | 'unhealthy';
+  queue?: {
+    /**
+     * Enable the wait queue
+     * When disabled, every operation waits for the recovery without limits
+     * @default true
+     */
+    enabled?: boolean;
+
+    /**
+     * Maximum number of queued operations
+     * Operations beyond this are rejected immediately with QueueRejectedError
+     * @default 1000
+     */
+    maxSize?: number;
+
+    /**
+     * Maximum time in milliseconds an operation waits in the queue
+     * before it is rejected with QueueRejectedError
+     * @default 30000 (30 seconds)
+     */
+    maxWaitMs?: number;
+
+    /**
+     * Release order once the connection is back
+     * - fifo: in arrival order
+     * - priority: highest `priority` call option first, arrival order within a priority
+     * @default 'fifo'
+     */
+    order?: QueueOrder;
+  };
 
   /**
-   * Database connection status
+   * Bulkheads: concurrency limits for the whole client and for groups of operations
+   * Operations over a limit wait in that bulkhead's own queue, released by descending
+   * `priority` call option and in arrival order within a priority
    */
-  database: 'connected' | 'disconnected';
+  bulkhead?: {
+    /**
+     * Enable bulkheads
+     * @default false
+     */
+    enabled?: boolean;
+
+    /**
+     * Maximum concurrent operations across the whole client
+     * @default Infinity (no global limit)
+     */
+    maxConcurrent?: number;
+
+    /**
+     * Maximum operations waiting for a slot, per bulkhead unless the group sets its own
+     * @default 100
+     */
+    maxQueueSize?: number;
+
+    /**
+     * Maximum time in milliseconds an operation waits for a slot,
+     * per bulkhead unless the group sets its own
+     * @default 10000 (10 seconds)
+     */
+    queueTimeoutMs?: number;
+
+    /**
+     * Bulkheads for groups of operations, by group name
+     * An operation belongs to the first group listing it; operations in no group
+     * are only subject to the global limit
+     * @default {}
+     * @example
+     * groups: {
+     *   analytics: { operations: ['report.*', '$queryRawUnsafe'], maxConcurrent: 2 },
+     *   sessions: { operations: ['session.*'], maxConcurrent: 10, queueTimeoutMs: 500 },
+     * }
+     */
+    groups?: Record<string, BulkheadGroup>;
+  };
 
   /**
-   * Query latency in milliseconds (only when healthy)
+   * Database provider, used to select the error classification rule pack
+   * Detected from the PrismaClient when omitted
    */
-  latency?: number;
+  provider?: DatabaseProvider;
 
   /**
-   * Memory usage information (only when healthy)
+   * Custom error classification rules
+   * Evaluated before the provider rule pack and the built-in Prisma rules
+   * @default []
    */
-  memory?: {
-    heapUsed: string;
-    heapTotal: string;
-    heapUsagePercent: string;
-  };
+  errorRules?: ErrorRule[];
 
   /**
-   * Error message (only when unhealthy)
+   * Logging settings
+   */
+  logging?: {
+    /**
+     * Minimum log level
+     * @default 'info'
+     */
+    level?: 'debug' | 'info' | 'warn' | 'error';
+
+    /**
+     * Custom logger instance
+     * @default console
+     */
+    logger?: Logger;
+  };
+
+  /**
+   * Per-operation statistics returned by getOperationStats()
+   */
+  operationStats?: {
+    /**
+     * Record counts, errors, retries and latency per operation
+     * @default true
+     */
+    enabled?: boolean;
+
+    /**
+     * Length of the sliding window latency percentiles are computed over
+     * @default 60000 (1 minute)
+     */
+    windowMs?: number;
+
+    /**
+     * Number of segments the window is split into; the window moves one segment at a time,
+     * and memory per operation grows with the segment count
+     * @default 6
+     */
+    segments?: number;
+  };
+
+  /**
+   * OpenTelemetry tracing settings
+   * Uses the optional `@opentelemetry/api` peer dependency; without it, or without a
+   * registered tracer provider, tracing is a no-op
+   */
+  tracing?: {
+    /**
+     * Create spans for operations, reconnects and hard resets
+     * @default true
+     */
+    enabled?: boolean;
+
+    /**
+     * Name of the tracer obtained from the global tracer provider
+     * @default 'prisma-resilient-client'
+     */
+    tracerName?: string;
+
+    /**
+     * Tracer to use instead of the one from the global tracer provider
+     */
+    tracer?: TraceTracer;
+  };
+
+  /**
+   * Custom error handler
+   * Called when database errors occur
+   */
+  onError?: (error: Error, context: ErrorContext) => void | Promise<void>;
+}
+
+/**
+ * Database providers with a built-in error classification rule pack
+ */
+export type DatabaseProvider = 'postgresql' | 'mysql' | 'sqlserver' | 'cockroachdb' | 'mongodb';
+
+/**
+ * How an error should be handled
+ * - retryable-connection: the connection is broken, reconnect and retry
+ * - retryable-transient: the database rejected this attempt, retry without reconnecting
+ * - pool-exhausted: no connection was available from the pool
+ * - auth: credentials or permissions were rejected
+ * - fatal: application or query error, never retried
+ */
+export type ErrorClassification =
+  | 'retryable-connection'
+  | 'retryable-transient'
+  | 'pool-exhausted'
+  | 'auth'
+  | 'fatal';
+
+/**
+ * Prisma error class names understood by the classifier
+ */
+export type PrismaErrorClassName =
+  | 'PrismaClientKnownRequestError'
+  | 'PrismaClientInitializationError'
+  | 'PrismaClientRustPanicError'
+  | 'PrismaClientUnknownRequestError';
+
+/**
+ * Error classification rule
+ * A rule matches when every criterion it specifies matches the error
+ */
+export interface ErrorRule {
+  /**
+   * Rule name, for logging and debugging
+   */
+  name: string;
+
+  /**
+   * Classification returned when the rule matches
+   */
+  classification: ErrorClassification;
+
+  /**
+   * Prisma error classes the rule applies to
+   */
+  errorClasses?: PrismaErrorClassName[];
+
+  /**
+   * Error codes to match: Prisma P-codes, database error codes
+   * (SQLSTATE, MySQL/SQL Server error numbers) or Node.js socket codes
+   */
+  codes?: string[];
+
+  /**
+   * Patterns matched against the error message
+   */
+  messages?: RegExp[];
+
+  /**
+   * Custom predicate
+   */
+  match?: (error: unknown) => boolean;
+}
+
+/**
+ * Built-in backoff strategy
+ */
+export type BackoffStrategy = 'linear' | 'exponential' | 'full-jitter' | 'decorrelated-jitter';
+
+/**
+ * Custom backoff function
+ * @param attempt - Retry attempt, starting at 1
+ * @param previousDelay - Delay before the previous attempt (initialDelay for the first attempt)
+ * @returns Delay in milliseconds, capped at maxDelay
+ */
+export type BackoffFunction = (attempt: number, previousDelay: number) => number;
+
+/**
+ * Bulkhead for a group of operations
+ */
+export interface BulkheadGroup {
+  /**
+   * Operations in the group: `model.method`, `model.*`, `*.method` or raw methods such as `$queryRaw`
+   */
+  operations: string[];
+
+  /**
+   * Maximum concurrent operations in the group
+   */
+  maxConcurrent: number;
+
+  /**
+   * Maximum operations waiting for a slot in the group
+   * @default bulkhead.maxQueueSize
+   */
+  maxQueueSize?: number;
+
+  /**
+   * Maximum time in milliseconds an operation waits for a slot in the group
+   * @default bulkhead.queueTimeoutMs
+   */
+  queueTimeoutMs?: number;
+}
+
+/**
+ * Options for operations started inside ResilientPrismaClient.withOptions()
+ */
+export interface CallOptions {
+  /**
+   * Mark the operation as safe (true) or unsafe (false) to retry after an ambiguous failure,
+   * overriding the retry policy
+   */
+  idempotent?: boolean;
+
+  /**
+   * Priority in the wait queue when `queue.order` is 'priority'; higher runs first
+   * @default 0
+   */
+  priority?: number;
+
+  /**
+   * Deadline in milliseconds for the whole operation, including reconnects and retries
+   * Overrides `timeout.defaultMs`; on expiry the operation fails with QueryTimeoutError
+   */
+  timeoutMs?: number;
+
+  /**
+   * Signal cancelling the operation early; it then fails with OperationAbortedError
+   * A query already sent to the database is not cancelled, but no further retries run
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Logger interface
+ */
+export interface Logger {
+  debug(message: string, ...args: any[]): void;
+  info(message: string, ...args: any[]): void;
+  warn(message: string, ...args: any[]): void;
+  error(message: string, ...args: any[]): void;
+}
+
+/**
+ * Error context passed to custom error handler
+ */
+export interface ErrorContext {
+  /**
+   * Name of the operation that failed
+   */
+  operation: string;
+
+  /**
+   * Number of retry attempts made
+   */
+  retryCount: number;
+
+  /**
+   * Duration of the operation in milliseconds
+   */
+  duration: number;
+
+  /**
+   * Classification of the error
+   */
+  classification: ErrorClassification;
+}
+
+/**
+ * Connection statistics
+ */
+export interface ConnectionStats {
+  /**
+   * Current connection state
+   */
+  isConnected: boolean;
+
+  /**
+   * Current number of reconnect attempts in progress
+   */
+  reconnectAttempts: number;
+
+  /**
+   * Total number of successful reconnects since start
+   */
+  totalReconnects: number;
+
+  /**
+   * Timestamp of last successful connection
+   */
+  lastSuccessfulConnection: string | null;
+
+  /**
+   * Uptime in milliseconds since last successful connection
+   */
+  uptime: number;
+
+  /**
+   * Total number of queries executed
+   */
+  queryCount: number;
+
+  /**
+   * Total number of errors encountered
+   */
+  errorCount: number;
+
+  /**
+   * Number of consecutive errors
+   */
+  consecutiveErrors: number;
+
+  /**
+   * Total number of hard resets performed
+   */
+  totalHardResets: number;
+
+  /**
+   * Connection age in milliseconds
+   */
+  connectionAge: number;
+
+  /**
+   * Total number of interactive transaction retries after conflicts
+   */
+  transactionRetries: number;
+
+  /**
+   * Current circuit breaker state
+   */
+  circuitState: CircuitState;
+
+  /**
+   * Total number of times the circuit breaker has opened
+   */
+  totalCircuitOpens: number;
+
+  /**
+   * Total number of operations that failed with QueryTimeoutError
+   */
+  totalTimeouts: number;
+
+  /**
+   * Total number of retries denied by the retry budget
+   */
+  retryBudgetRejections: number;
+
+  /**
+   * Total number of operations that could not get a connection from the pool
+   */
+  poolExhaustedCount: number;
+
+  /**
+   * Number of operations currently waiting in the wait queue
+   */
+  queueDepth: number;
+
+  /**
+   * Total number of operations that waited in the wait queue
+   */
+  totalQueued: number;
+
+  /**
+   * Total number of operations rejected by the wait queue because it was full or the wait timed out
+   */
+  queueRejections: number;
+
+  /**
+   * Average wait in milliseconds of operations released from the wait queue
+   */
+  averageQueueWaitMs: number;
+
+  /**
+   * Longest wait in milliseconds of an operation released from the wait queue
+   */
+  maxQueueWaitMs: number;
+
+  /**
+   * Bulkhead statistics by bulkhead name (`global` and each group); empty when bulkheads are disabled
+   */
+  bulkheads: Record<string, BulkheadStats>;
+
+  /**
+   * Whether the client is paused through pause()
+   */
+  paused: boolean;
+
+  /**
+   * Health state derived from recent health checks
+   */
+  healthState: HealthState;
+}
+
+/**
+ * Statistics of one bulkhead
+ */
+export interface BulkheadStats {
+  /**
+   * Operations currently holding a slot
+   */
+  active: number;
+
+  /**
+   * Concurrency limit
+   */
+  maxConcurrent: number;
+
+  /**
+   * Operations currently waiting for a slot
+   */
+  queued: number;
+
+  /**
+   * Number of times the bulkhead became saturated and started queueing
+   */
+  saturations: number;
+
+  /**
+   * Operations rejected because the queue was full or the wait timed out
+   */
+  rejections: number;
+
+  /**
+   * Average wait in milliseconds of operations that got a slot after queueing
+   */
+  averageWaitMs: number;
+
+  /**
+   * Longest wait in milliseconds of an operation that got a slot after queueing
+   */
+  maxWaitMs: number;
+}
+
+/**
+ * Release order of the wait queue
+ */
+export type QueueOrder = 'fifo' | 'priority';
+
+/**
+ * A daily time window, e.g. `{ start: '02:00', end: '04:00' }`
+ * A window whose end is before its start spans midnight
+ */
+export interface MaintenanceWindow {
+  /**
+   * Start time as `HH:MM` (inclusive)
+   */
+  start: string;
+
+  /**
+   * End time as `HH:MM` (exclusive)
+   */
+  end: string;
+
+  /**
+   * Days of the week the window starts on, 0 (Sunday) to 6 (Saturday)
+   * @default every day
+   */
+  days?: number[];
+}
+
+/**
+ * What pause() does with new operations
+ * - hold: queue them until resume()
+ * - reject: fail them fast with PausedError
+ */
+export type PauseMode = 'hold' | 'reject';
+
+/**
+ * Options for pause()
+ */
+export interface PauseOptions {
+  /**
+   * @default 'hold'
+   */
+  mode?: PauseMode;
+
+  /**
+   * Keep read operations (findMany, count, ...) running while paused; raw queries are paused like writes
+   * @default false
+   */
+  reads?: boolean;
+
+  /**
+   * hold: maximum time in milliseconds an operation waits for resume() before QueueRejectedError
+   * @default queue.maxWaitMs
+   */
+  maxWaitMs?: number;
+}
+
+/**
+ * Startup mode for the first connection
+ */
+export type StartupMode = 'fail-fast' | 'wait';
+
+/**
+ * Result of shutdown(), passed to the `shutdown:complete` event
+ */
+export interface ShutdownResult {
+  /**
+   * Operations that were in flight when shutdown started and settled within the grace period
+   */
+  drained: number;
+
+  /**
+   * Operations still in flight when the grace period ran out, cut off by the disconnect
+   */
+  aborted: number;
+
+  /**
+   * Time the shutdown took in milliseconds
+   */
+  durationMs: number;
+}
+
+/**
+ * Options for registerShutdownHandlers()
+ */
+export interface ShutdownHandlerOptions {
+  /**
+   * Signals that trigger a graceful shutdown
+   * @default ['SIGTERM', 'SIGINT']
+   */
+  signals?: NodeJS.Signals[];
+
+  /**
+   * Exit the process once shutdown completes
+   * @default true
+   */
+  exit?: boolean;
+
+  /**
+   * Called with the shutdown result before the process exits
+   */
+  onShutdown?: (result: ShutdownResult) => void | Promise<void>;
+}
+
+/**
+ * Periodic refresh mode
+ */
+export type RefreshMode = 'reconnect' | 'skip-if-active' | 'idle' | 'swap';
+
+/**
+ * Result of a periodic refresh, passed to the `refresh:complete` event
+ */
+export interface RefreshResult {
+  /**
+   * Configured refresh mode
+   */
+  mode: RefreshMode;
+
+  /**
+   * What the refresh did: reconnected, swapped in a new PrismaClient, or skipped
+   */
+  action: 'reconnect' | 'swap' | 'skipped';
+
+  /**
+   * Time the refresh took in milliseconds
+   */
+  durationMs: number;
+}
+
+/**
+ * Circuit breaker state
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * A health probe run by healthCheck()
+ * The probe fails when `check` throws or rejects, or does not settle within its timeout
+ */
+export interface HealthProbe {
+  /**
+   * Name reported in the probe results
+   */
+  name: string;
+
+  /**
+   * Check run against the current PrismaClient
+   */
+  check: (prisma: PrismaClient) => Promise<unknown>;
+
+  /**
+   * Timeout in milliseconds
+   * @default healthCheck.timeoutMs
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Result of one health probe
+ */
+export interface HealthProbeResult {
+  name: string;
+  status: 'pass' | 'fail';
+
+  /**
+   * Time the probe took in milliseconds
+   */
+  latency: number;
+
+  /**
+   * Error message (only when failed)
+   */
+  error?: string;
+}
+
+/**
+ * How an operation ended
+ * - rejected: failed fast by the circuit breaker, a queue, a bulkhead, pause() or shutdown()
+ */
+export type OperationOutcome = 'success' | 'error' | 'timeout' | 'aborted' | 'rejected';
+
+/**
+ * A finished operation, passed to the `operation:complete` event
+ */
+export interface OperationResult {
+  /**
+   * Operation name (e.g. `user.findMany`)
+   */
+  operation: string;
+
+  outcome: OperationOutcome;
+
+  /**
+   * Time from the call to the result in milliseconds, including queueing, reconnects and retries
+   */
+  durationMs: number;
+
+  /**
+   * Number of attempts run against the database
+   */
+  attempts: number;
+
+  /**
+   * Classification of the final error (only when outcome is 'error')
+   */
+  classification?: ErrorClassification;
+}
+
+/**
+ * Statistics of one operation, returned by getOperationStats()
+ * Counts cover every operation since the start or the last reset; latency covers
+ * the sliding window only
+ */
+export interface OperationStats {
+  /**
+   * Finished operations
+   */
+  count: number;
+
+  /**
+   * Operations that did not succeed
+   */
+  errorCount: number;
+
+  /**
+   * Finished operations by outcome
+   */
+  outcomes: Record<OperationOutcome, number>;
+
+  /**
+   * Failed operations by the classification of their final error (outcome 'error' only)
+   */
+  errorsByClassification: Partial<Record<ErrorClassification, number>>;
+
+  /**
+   * Attempts after the first one, summed over all operations
+   */
+  retries: number;
+
+  /**
+   * Duration percentiles over the sliding window
+   */
+  latency: LatencyPercentiles;
+}
+
+/**
+ * Estimated duration percentiles in milliseconds
+ * Estimates are within about 2.5% of the exact value; all are 0 when count is 0
+ */
+export interface LatencyPercentiles {
+  /**
+   * Operations in the window
+   */
+  count: number;
+
+  p50: number;
+  p95: number;
+  p99: number;
+
+  /**
+   * Longest duration in the window
+   */
+  max: number;
+}
+
+/**
+ * Health state derived from consecutive check results
+ */
+export type HealthState = 'healthy' | 'degraded' | 'unhealthy';
+
+/**
+ * A past health check, as kept in the history
+ */
+export interface HealthHistoryEntry {
+  /**
+   * When the check finished (ISO 8601)
+   */
+  timestamp: string;
+
+  status: 'healthy' | 'unhealthy';
+
+  /**
+   * Database probe latency in milliseconds (only when healthy)
+   */
+  latency?: number;
+
+  /**
+   * Error message (only when unhealthy)
+   */
+  error?: string;
+}
+
+/**
+ * Health check result
+ */
+export interface HealthCheckResult {
+  /**
+   * Overall health status
+   */
+  status: 'healthy' | 'unhealthy';
+
+  /**
+   * Database connection status
+   */
+  database: 'connected' | 'disconnected';
+
+  /**
+   * Query latency in milliseconds (only when healthy)
+   */
+  latency?: number;
+
+  /**
+   * Memory usage information (only when healthy)
+   */
+  memory?: {
+    heapUsed: string;
+    heapTotal: string;
+    heapUsagePercent: string;
+  };
+
+  /**
+   * Error message (only when unhealthy)
    */
   error?: string;
+
+  /**
+   * Result of every probe: the built-in `database` probe, then the custom probes
+   */
+  probes: HealthProbeResult[];
+
+  /**
+   * Health state after this check, with the configured thresholds applied
+   */
+  state: HealthState;
+
+  /**
+   * When the health state last changed (ISO 8601)
+   */
+  lastStateChange: string;
+
+  /**
+   * Recent checks, oldest first and including this one (only with `{ history: true }`)
+   */
+  history?: HealthHistoryEntry[];
+}
+
+/**
+ * Why a readiness probe failed
+ */
+export type NotReadyReason = 'shutting-down' | 'paused' | 'reconnecting' | 'disconnected' | 'unhealthy';
+
+/**
+ * Options for the HTTP probe handlers
+ */
+export interface ProbeOptions {
+  /**
+   * Status codes for passing and failing probes
+   * @default { ok: 200, unavailable: 503 }
+   */
+  statusCodes?: {
+    ok?: number;
+    unavailable?: number;
+  };
+
+  /**
+   * Include ConnectionStats in liveness and readiness bodies
+   * @default true
+   */
+  includeStats?: boolean;
+
+  /**
+   * Run healthCheck() on readiness probes once the client state looks ready
+   * Probe checks are not recorded, so only periodic and manual checks move the health state
+   * @default true
+   */
+  healthCheck?: boolean;
+
+  /**
+   * Consecutive failed readiness checks before readiness fails
+   * Readiness also fails while the health state is 'unhealthy'
+   * @default 3
+   */
+  failureThreshold?: number;
+}
+
+/**
+ * JSON body of liveness and readiness probes
+ */
+export interface ProbeBody {
+  /**
+   * Liveness: 'ok' or 'shutting-down'; readiness: 'ready' or 'not-ready'
+   */
+  status: 'ok' | 'shutting-down' | 'ready' | 'not-ready';
+
+  /**
+   * Why the readiness probe failed
+   */
+  reason?: NotReadyReason;
+
+  /**
+   * Result of healthCheck(), when the readiness probe ran it
+   */
+  health?: HealthCheckResult;
+
+  stats?: ConnectionStats;
+}
+
+/**
+ * Status code and JSON body returned by a probe handler
+ */
+export interface ProbeResponse<TBody = ProbeBody> {
+  statusCode: number;
+  body: TBody;
+}
+
+/**
+ * Options for createMetrics()
+ */
+export interface MetricsOptions {
+  /**
+   * Registry the metrics are registered in
+   * Use createPromClientRegistry() to register them in prom-client
+   * @default a new built-in registry
+   */
+  registry?: MetricsRegistry;
+
+  /**
+   * Prefix of every metric name; use a distinct prefix per client sharing a registry
+   * @default 'prisma_resilient_'
+   */
+  prefix?: string;
+
+  /**
+   * Buckets of the operation duration histogram in seconds
+   * @default [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+   */
+  buckets?: number[];
+}
+
+/**
+ * Metric labels by label name
+ */
+export type MetricLabels = Record<string, string>;
+
+/**
+ * Registry the metrics module registers its metrics in
+ * Implemented by the built-in registry and by the prom-client adapter
+ */
+export interface MetricsRegistry {
+  /**
+   * Content type of the exposition format returned by metrics()
+   */
+  readonly contentType: string;
+
+  counter(name: string, help: string, labelNames: string[]): { inc(labels: MetricLabels, value?: number): void };
+  gauge(name: string, help: string, labelNames: string[]): { set(labels: MetricLabels, value: number): void };
+  histogram(
+    name: string,
+    help: string,
+    labelNames: string[],
+    buckets: number[]
+  ): { observe(labels: MetricLabels, value: number): void };
+
+  /**
+   * Every registered metric in Prometheus text format
+   */
+  metrics(): Promise<string>;
+}
+
+/**
+ * Span attributes by attribute name
+ */
+export type TraceAttributes = Record<string, string | number | boolean>;
+
+/**
+ * Span created by a TraceTracer
+ * The subset of the OpenTelemetry `Span` interface used by the client
+ */
+export interface TraceSpan {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  addEvent(name: string, attributes?: TraceAttributes): unknown;
+  recordException(exception: Error | string): void;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+/**
+ * Tracer the client creates its spans with
+ * The subset of the OpenTelemetry `Tracer` interface used by the client
+ */
+export interface TraceTracer {
+  startSpan(name: string, options?: { kind?: number; attributes?: TraceAttributes }, context?: unknown): TraceSpan;
 }
 
 /**
@@ -289,4 +1466,85 @@ export interface ResilientPrismaEvents {
    * Emitted when hard reset (PrismaClient recreation) is performed
    */
   'hard-reset': () => void;
+
+  /**
+   * Emitted when the PrismaClient replaced by a hard reset has been disconnected
+   * Receives the number of operations still in flight when the drain timeout passed (0 when fully drained)
+   */
+  'hard-reset:drained': (remaining: number) => void;
+
+  /**
+   * Emitted when an interactive transaction is retried after a serialization failure or deadlock
+   */
+  'transaction:retry': (attempt: number, error: Error) => void;
+
+  /**
+   * Emitted when a periodic refresh completes
+   */
+  'refresh:complete': (result: RefreshResult) => void;
+
+  /**
+   * Emitted when the circuit breaker opens and operations start failing fast
+   */
+  'circuit:open': () => void;
+
+  /**
+   * Emitted when the circuit breaker starts admitting trial requests
+   */
+  'circuit:half-open': () => void;
+
+  /**
+   * Emitted when the circuit breaker closes after successful trial requests
+   */
+  'circuit:close': () => void;
+
+  /**
+   * Emitted every time an operation could not get a connection from the pool
+   */
+  'pool:exhausted': (operation: string, attempt: number) => void;
+
+  /**
+   * Emitted when the retry budget denies a retry
+   */
+  'retry:budget-exhausted': (operation: string) => void;
+
+  /**
+   * Emitted when a bulkhead reaches its concurrency limit and starts queueing operations
+   */
+  'bulkhead:saturated': (bulkhead: string, operation: string) => void;
+
+  /**
+   * Emitted when a bulkhead rejects an operation
+   */
+  'bulkhead:rejected': (bulkhead: string, operation: string, reason: 'full' | 'timeout') => void;
+
+  /**
+   * Emitted when an operation started through the client finishes, successfully or not
+   */
+  'operation:complete': (result: OperationResult) => void;
+
+  /**
+   * Emitted when the health state changes
+   */
+  'health:change': (state: HealthState, previous: HealthState, result: HealthCheckResult) => void;
+
+  /**
+   * Emitted when pause() is called
+   */
+  pause: (options: Required<Omit<PauseOptions, 'maxWaitMs'>>) => void;
+
+  /**
+   * Emitted when resume() releases a pause
+   */
+  resume: () => void;
+
+  /**
+   * Emitted when shutdown starts rejecting new operations
+   */
+  'shutdown:start': () => void;
+
+  /**
+   * Emitted when shutdown has drained in-flight operations and disconnected
+   */
+  'shutdown:complete': (result: ShutdownResult) => void;
 }
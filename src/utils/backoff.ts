@@ -2,22 +2,47 @@
  * Utility functions for backoff calculations
  */
 
-export type BackoffStrategy = 'linear' | 'exponential';
+import type { BackoffFunction, BackoffStrategy } from '../types';
+
+export type { BackoffStrategy, BackoffFunction } from '../types';
+
+/**
+ * Delay sequence for one run of retries
+ * Create a new policy for every retry loop: decorrelated jitter depends on the previous delay
+ */
+export interface BackoffPolicy {
+  /**
+   * Delay in milliseconds before the next attempt
+   */
+  next(): number;
+}
 
 /**
  * Calculate delay for retry attempt based on backoff strategy
+ * - linear: initialDelay * attempt
+ * - exponential: initialDelay * 2^(attempt-1)
+ * - full-jitter: random delay between 0 and the exponential delay
+ * - decorrelated-jitter: random delay between initialDelay and 3x the previous delay
  */
 export function calculateBackoff(
   attempt: number,
   initialDelay: number,
   maxDelay: number,
-  strategy: BackoffStrategy
+  strategy: BackoffStrategy,
+  previousDelay: number = initialDelay
 ): number {
   let delay: number;
 
   if (strategy === 'exponential') {
     // Exponential: initialDelay * 2^(attempt-1)
     delay = initialDelay * Math.pow(2, attempt - 1);
+  } else if (strategy === 'full-jitter') {
+    // Full jitter: random(0, min(maxDelay, initialDelay * 2^(attempt-1)))
+    delay = Math.floor(Math.random() * Math.min(maxDelay, initialDelay * Math.pow(2, attempt - 1)));
+  } else if (strategy === 'decorrelated-jitter') {
+    // Decorrelated jitter: random(initialDelay, previousDelay * 3)
+    const upper = Math.max(initialDelay, previousDelay * 3);
+    delay = Math.floor(initialDelay + Math.random() * (upper - initialDelay));
   } else {
     // Linear: initialDelay * attempt
     delay = initialDelay * attempt;
@@ -27,9 +52,49 @@ export function calculateBackoff(
   return Math.min(delay, maxDelay);
 }
 
+/**
+ * Create the delay sequence for a built-in strategy or a custom backoff function
+ * Custom delays are capped at maxDelay like the built-in ones
+ */
+export function createBackoffPolicy(
+  backoff: BackoffStrategy | BackoffFunction,
+  initialDelay: number,
+  maxDelay: number
+): BackoffPolicy {
+  let attempt = 0;
+  let previousDelay = initialDelay;
+
+  return {
+    next: () => {
+      attempt++;
+      const delay =
+        typeof backoff === 'function'
+          ? backoff(attempt, previousDelay)
+          : calculateBackoff(attempt, initialDelay, maxDelay, backoff, previousDelay);
+      previousDelay = Math.max(0, Math.min(delay, maxDelay));
+      return previousDelay;
+    },
+  };
+}
+
 /**
  * Sleep for specified milliseconds
+ * Resolves early when the signal is aborted
  */
-export function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
@@ -0,0 +1,133 @@
+/**
+ * Error classification
+ */
+
+import type { DatabaseProvider, ErrorClassification, ErrorRule } from '../types';
+import { PRISMA_RULES, RULE_PACKS } from './rules';
+
+/**
+ * Options for building an error classifier
+ */
+export interface ErrorClassifierOptions {
+  /**
+   * Database provider whose rule pack is applied
+   * When omitted, every rule pack is applied
+   */
+  provider?: DatabaseProvider;
+
+  /**
+   * Custom rules, evaluated before all built-in rules
+   */
+  rules?: ErrorRule[];
+}
+
+export type ErrorClassifier = (error: unknown) => ErrorClassification;
+
+/**
+ * Get the Prisma error class name of an error, if any
+ */
+export function getErrorClassName(error: unknown): string | undefined {
+  if (!error || typeof error !== 'object') {
+    return undefined;
+  }
+  const err = error as any;
+  return err.name || err.constructor?.name;
+}
+
+/**
+ * Collect every error code carried by an error
+ * Covers Prisma P-codes, initialization error codes, database codes
+ * reported in `meta` or the raw query message, and the `cause` chain
+ */
+export function getErrorCodes(error: unknown): string[] {
+  const codes: string[] = [];
+  let current: any = error;
+
+  for (let depth = 0; current && typeof current === 'object' && depth < 5; depth++) {
+    for (const code of [current.code, current.errorCode, current.meta?.code]) {
+      if (code !== undefined && code !== null && code !== '') {
+        codes.push(String(code));
+      }
+    }
+
+    // Raw query failures: "Raw query failed. Code: `57P01`. Message: ..." or "Error code 112 (WriteConflict)"
+    const message = typeof current.message === 'string' ? current.message : '';
+    for (const match of message.matchAll(/\bcode:\s*`([A-Za-z0-9]+)`|\berror code:?\s*(\d+)/gi)) {
+      codes.push(match[1] || match[2]);
+    }
+
+    current = current.cause;
+  }
+
+  return codes;
+}
+
+/**
+ * Check if a rule matches an error
+ */
+export function matchesRule(rule: ErrorRule, error: unknown, codes: string[], message: string): boolean {
+  let hasCriteria = false;
+
+  if (rule.errorClasses) {
+    hasCriteria = true;
+    const className = getErrorClassName(error);
+    if (!className || !rule.errorClasses.includes(className as any)) {
+      return false;
+    }
+  }
+
+  // Codes and messages are alternatives: either may identify the error
+  if (rule.codes || rule.messages) {
+    hasCriteria = true;
+    const codeMatch = rule.codes?.some((code) => codes.includes(code)) ?? false;
+    const messageMatch = rule.messages?.some((pattern) => pattern.test(message)) ?? false;
+    if (!codeMatch && !messageMatch) {
+      return false;
+    }
+  }
+
+  if (rule.match) {
+    hasCriteria = true;
+    if (!rule.match(error)) {
+      return false;
+    }
+  }
+
+  return hasCriteria;
+}
+
+/**
+ * Create an error classifier from custom rules and a provider rule pack
+ */
+export function createErrorClassifier(options: ErrorClassifierOptions = {}): ErrorClassifier {
+  const providerRules = options.provider
+    ? RULE_PACKS[options.provider] || []
+    : Object.values(RULE_PACKS).flat();
+  const rules = [...(options.rules || []), ...providerRules, ...PRISMA_RULES];
+
+  return (error: unknown): ErrorClassification => {
+    if (!error || typeof error !== 'object') {
+      return 'fatal';
+    }
+
+    const codes = getErrorCodes(error);
+    const message = String((error as any).message || '');
+
+    for (const rule of rules) {
+      if (matchesRule(rule, error, codes, message)) {
+        return rule.classification;
+      }
+    }
+
+    return 'fatal';
+  };
+}
+
+const defaultClassifier = createErrorClassifier();
+
+/**
+ * Classify an error using the built-in rules of every provider
+ */
+export function classifyError(error: unknown): ErrorClassification {
+  return defaultClassifier(error);
+}
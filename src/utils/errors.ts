@@ -2,53 +2,23 @@
  * Utility functions for error detection and handling
  */
 
-/**
- * Known Prisma connection error codes
- */
-const CONNECTION_ERROR_CODES = [
-  'P1001', // Can't reach database server
-  'P1008', // Operations timed out
-  'P1017', // Server has closed the connection
-  'P2024', // Timed out fetching a new connection
-];
+import { classifyError } from './classifier';
 
 /**
  * Check if an error is a connection-related error
+ * Uses the built-in classification rules of every provider
+ * Pool exhaustion (P2024) is backpressure, not a connection error
  */
 export function isConnectionError(error: unknown): boolean {
-  if (!error || typeof error !== 'object') {
-    return false;
-  }
-
-  const err = error as any;
-
-  // Check for Prisma error codes
-  if (err.code && CONNECTION_ERROR_CODES.includes(err.code)) {
-    return true;
-  }
-
-  // Check error message for connection-related keywords
-  const message = err.message?.toLowerCase() || '';
-  const connectionKeywords = [
-    'connection',
-    'connect',
-    'disconnect',
-    'econnrefused',
-    'etimedout',
-    'enotfound',
-    'socket',
-    'network',
-  ];
-
-  return connectionKeywords.some((keyword) => message.includes(keyword));
+  return classifyError(error) === 'retryable-connection';
 }
 
 /**
  * Check if an error is retryable
+ * Connection errors are retried after a reconnect, pool exhaustion after a short delay
  */
 export function isRetryableError(error: unknown): boolean {
-  // Currently, all connection errors are considered retryable
-  return isConnectionError(error);
+  return isConnectionError(error) || classifyError(error) === 'pool-exhausted';
 }
 
 /**
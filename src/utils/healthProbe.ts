@@ -0,0 +1,50 @@
+/**
+ * Health probe utilities
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import type { DatabaseProvider, HealthProbe, HealthProbeResult } from '../types';
+import { getErrorMessage } from './errors';
+
+/**
+ * Built-in probe for the provider: `ping` on MongoDB, `SELECT 1` on relational databases
+ */
+export function getDatabaseProbe(provider: DatabaseProvider | undefined): HealthProbe {
+  if (provider === 'mongodb') {
+    return {
+      name: 'database',
+      check: (prisma) => (prisma as any).$runCommandRaw({ ping: 1 }),
+    };
+  }
+  return {
+    name: 'database',
+    check: (prisma) => prisma.$queryRaw`SELECT 1`,
+  };
+}
+
+/**
+ * Run a probe with a timeout
+ * Never rejects: failures and timeouts are reported in the result
+ */
+export async function runHealthProbe(
+  probe: HealthProbe,
+  prisma: PrismaClient,
+  timeoutMs: number
+): Promise<HealthProbeResult> {
+  const start = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+
+  try {
+    await Promise.race([
+      probe.check(prisma),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Probe timed out after ${timeoutMs}ms`)), timeoutMs);
+      }),
+    ]);
+    return { name: probe.name, status: 'pass', latency: Date.now() - start };
+  } catch (error) {
+    return { name: probe.name, status: 'fail', latency: Date.now() - start, error: getErrorMessage(error) };
+  } finally {
+    clearTimeout(timer);
+  }
+}
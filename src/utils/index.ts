@@ -3,5 +3,11 @@
  */
 
 export * from './errors';
+export * from './classifier';
+export * from './rules';
+export * from './retryPolicy';
+export * from './prismaPromise';
 export * from './backoff';
 export * from './memory';
+export * from './healthProbe';
+export * from './maintenance';
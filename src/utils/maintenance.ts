@@ -0,0 +1,67 @@
+/**
+ * Maintenance window utilities
+ */
+
+import type { MaintenanceWindow } from '../types';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Parse an `HH:MM` time into minutes after midnight
+ */
+export function parseTimeOfDay(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  const hours = match ? Number(match[1]) : NaN;
+  const minutes = match ? Number(match[2]) : NaN;
+  if (!(hours >= 0 && hours <= 24 && minutes >= 0 && minutes < 60) || hours * 60 + minutes > MINUTES_PER_DAY) {
+    throw new Error(`Invalid maintenance window time "${value}", expected HH:MM`);
+  }
+  return hours * 60 + minutes;
+}
+
+/**
+ * Maintenance window with its times parsed into minutes after midnight
+ */
+export interface ParsedMaintenanceWindow {
+  start: number;
+  end: number;
+  days?: number[];
+}
+
+/**
+ * Parse and validate maintenance windows
+ * @throws if a time is not `HH:MM` or a day is not 0 (Sunday) to 6 (Saturday)
+ */
+export function parseMaintenanceWindows(windows: MaintenanceWindow[]): ParsedMaintenanceWindow[] {
+  return windows.map((window) => {
+    const invalidDay = window.days?.find((day) => !Number.isInteger(day) || day < 0 || day > 6);
+    if (invalidDay !== undefined) {
+      throw new Error(`Invalid maintenance window day ${invalidDay}, expected 0 (Sunday) to 6 (Saturday)`);
+    }
+    return { start: parseTimeOfDay(window.start), end: parseTimeOfDay(window.end), days: window.days };
+  });
+}
+
+/**
+ * Check if a time falls inside any of the windows
+ * Windows spanning midnight belong to the day they start on
+ */
+export function isWithinMaintenanceWindow(
+  windows: ParsedMaintenanceWindow[],
+  timezone: 'local' | 'utc' = 'local',
+  now: Date = new Date()
+): boolean {
+  const utc = timezone === 'utc';
+  const day = utc ? now.getUTCDay() : now.getDay();
+  const minute = utc ? now.getUTCHours() * 60 + now.getUTCMinutes() : now.getHours() * 60 + now.getMinutes();
+
+  return windows.some(({ start, end, days }) => {
+    const startsOn = (d: number) => !days || days.includes(d);
+
+    if (start <= end) {
+      return startsOn(day) && minute >= start && minute < end;
+    }
+    // Spans midnight: the evening part starts today, the morning part started yesterday
+    return (startsOn(day) && minute >= start) || (startsOn((day + 6) % 7) && minute < end);
+  });
+}
@@ -0,0 +1,57 @@
+/**
+ * Utility functions for preserving PrismaPromise semantics
+ */
+
+/**
+ * Wrap a PrismaPromise factory so the query only runs, through `execute`, when awaited
+ *
+ * Like a PrismaPromise, the returned object is lazy and runs its query once no matter how
+ * often it is awaited. Everything else is forwarded to a PrismaPromise created on demand:
+ * `requestTransaction` and `Symbol.toStringTag` keep batch `$transaction([...])` working,
+ * and relation methods keep the fluent API (`findUnique(...).posts()`) reachable.
+ *
+ * @param create - Creates a fresh PrismaPromise; called once per attempt and per batch request
+ * @param execute - Runs an attempt with reconnection and retry
+ */
+export function createResilientPromise<T = any>(
+  create: () => any,
+  execute: (operation: () => Promise<T>) => Promise<T>
+): any {
+  let prismaPromise: any = null;
+  let result: Promise<T> | null = null;
+
+  const getPrismaPromise = () => (prismaPromise ??= create());
+  const run = () => (result ??= execute(async () => await create()));
+
+  return new Proxy(
+    {},
+    {
+      get: (_target, prop) => {
+        if (prop === 'then') {
+          return (onFulfilled?: any, onRejected?: any) => run().then(onFulfilled, onRejected);
+        }
+        if (prop === 'catch') {
+          return (onRejected?: any) => run().catch(onRejected);
+        }
+        if (prop === 'finally') {
+          return (onFinally?: any) => run().finally(onFinally);
+        }
+
+        const target = getPrismaPromise();
+        const value = target[prop];
+        if (typeof value !== 'function') {
+          return value;
+        }
+
+        // Batch transactions execute a PrismaPromise directly; create a fresh one on every
+        // attempt so a retried batch runs against the current client
+        if (prop === 'requestTransaction') {
+          return (...args: any[]) => create().requestTransaction(...args);
+        }
+
+        // Fluent relation API: each relation call is its own resilient query
+        return (...args: any[]) => createResilientPromise(() => create()[prop](...args), execute);
+      },
+    }
+  );
+}
@@ -0,0 +1,106 @@
+/**
+ * Utility functions for idempotency-aware retry decisions
+ */
+
+import type { CallOptions, ErrorClassification, ResilientConfig } from '../types';
+import { getErrorCodes } from './classifier';
+
+/**
+ * Model and MongoDB raw methods that only read data
+ * `$queryRaw` and `$queryRawUnsafe` are not listed: they also run writes such as
+ * `INSERT ... RETURNING`, so they are only retried when allowed through overrides
+ */
+const READ_METHODS = new Set([
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+  'findRaw', // MongoDB
+  'aggregateRaw', // MongoDB
+]);
+
+/**
+ * Error codes proving the request never reached the database server
+ */
+const NOT_SENT_CODES = [
+  'P1001', // Can't reach database server
+  'P2024', // Timed out fetching a new connection from the pool
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'EHOSTUNREACH',
+];
+
+/**
+ * Split an operation name such as `user.create` into model and method
+ */
+export function parseOperationName(operationName: string): { model: string | null; method: string } {
+  const index = operationName.lastIndexOf('.');
+  if (index === -1) {
+    return { model: null, method: operationName };
+  }
+  return { model: operationName.slice(0, index), method: operationName.slice(index + 1) };
+}
+
+/**
+ * Patterns an operation matches in config keys, most specific first
+ * `user.create` matches `user.create`, `user.*` and `*.create`; raw methods only match themselves
+ */
+export function getOperationPatterns(operationName: string): string[] {
+  const { model, method } = parseOperationName(operationName);
+  return model ? [operationName, `${model}.*`, `*.${method}`] : [operationName];
+}
+
+/**
+ * Check if an operation only reads data
+ */
+export function isReadOperation(operationName: string): boolean {
+  return READ_METHODS.has(parseOperationName(operationName).method);
+}
+
+/**
+ * Check if a failure leaves it unknown whether the server executed the operation
+ * Only connection failures are ambiguous, and only when the request may have been sent
+ */
+export function isAmbiguousFailure(error: unknown, classification: ErrorClassification): boolean {
+  if (classification !== 'retryable-connection') {
+    return false;
+  }
+  const codes = getErrorCodes(error);
+  return !NOT_SENT_CODES.some((code) => codes.includes(code));
+}
+
+/**
+ * Check if an operation can safely run again after an ambiguous failure
+ *
+ * Resolution order:
+ * 1. `idempotent` call option
+ * 2. overrides for `model.method`, then `model.*`, then `*.method`
+ * 3. reads are always safe
+ * 4. `retryNonIdempotent` for everything else
+ */
+export function isRetrySafe(
+  operationName: string,
+  policy: NonNullable<ResilientConfig['retryPolicy']>,
+  callOptions?: CallOptions
+): boolean {
+  if (callOptions?.idempotent !== undefined) {
+    return callOptions.idempotent;
+  }
+
+  const overrides = policy.overrides || {};
+  for (const key of getOperationPatterns(operationName)) {
+    if (overrides[key] !== undefined) {
+      return overrides[key];
+    }
+  }
+
+  if (isReadOperation(operationName)) {
+    return true;
+  }
+
+  return policy.retryNonIdempotent ?? false;
+}
@@ -0,0 +1,296 @@
+/**
+ * Error classification rule packs
+ */
+
+import type { DatabaseProvider, ErrorRule } from '../types';
+
+/**
+ * Built-in rules for Prisma error codes and error classes
+ * Applied after user rules and the provider rule pack
+ */
+export const PRISMA_RULES: ErrorRule[] = [
+  {
+    name: 'prisma-auth',
+    classification: 'auth',
+    codes: [
+      'P1000', // Authentication failed against database server
+      'P1010', // User was denied access on the database
+    ],
+  },
+  {
+    name: 'prisma-pool-timeout',
+    classification: 'pool-exhausted',
+    codes: [
+      'P2024', // Timed out fetching a new connection from the connection pool
+    ],
+  },
+  {
+    name: 'prisma-transaction-conflict',
+    classification: 'retryable-transient',
+    codes: [
+      'P2034', // Transaction failed due to a write conflict or a deadlock
+    ],
+  },
+  {
+    name: 'prisma-connection',
+    classification: 'retryable-connection',
+    codes: [
+      'P1001', // Can't reach database server
+      'P1002', // Database server was reached but timed out
+      'P1008', // Operations timed out
+      'P1017', // Server has closed the connection
+    ],
+  },
+  {
+    name: 'prisma-engine',
+    classification: 'retryable-connection',
+    messages: [
+      /engine is not yet connected/i,
+      /response from the engine was empty/i,
+      /can't reach database server/i,
+    ],
+  },
+  {
+    name: 'prisma-rust-panic',
+    classification: 'retryable-connection',
+    errorClasses: ['PrismaClientRustPanicError'],
+  },
+  {
+    name: 'socket',
+    classification: 'retryable-connection',
+    codes: ['ECONNREFUSED', 'ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'ENOTFOUND', 'EPIPE', 'EHOSTUNREACH'],
+    messages: [
+      /\b(econnrefused|econnreset|econnaborted|etimedout|enotfound|epipe|ehostunreach)\b/i,
+      /\bconnection (was )?(refused|reset|lost|closed|terminated|timed out)\b/i,
+      /\bsocket (hang up|timeout|timed out|closed)\b/i,
+      /\bnetwork (error|is unreachable)\b/i,
+      /\bserver (has )?closed the connection\b/i,
+    ],
+  },
+  {
+    // The engine could not start a connection and no error code told us why
+    name: 'prisma-initialization',
+    classification: 'retryable-connection',
+    errorClasses: ['PrismaClientInitializationError'],
+  },
+];
+
+/**
+ * PostgreSQL rules (SQLSTATE codes)
+ */
+export const POSTGRESQL_RULES: ErrorRule[] = [
+  {
+    name: 'postgresql-connection',
+    classification: 'retryable-connection',
+    codes: [
+      '57P01', // admin_shutdown
+      '57P02', // crash_shutdown
+      '57P03', // cannot_connect_now
+      '08000', // connection_exception
+      '08001', // sqlclient_unable_to_establish_sqlconnection
+      '08003', // connection_does_not_exist
+      '08004', // sqlserver_rejected_establishment_of_sqlconnection
+      '08006', // connection_failure
+      '25006', // read_only_sql_transaction (connected to a replica after failover)
+    ],
+    messages: [
+      /terminating connection due to administrator command/i,
+      /the database system is (starting up|shutting down|in recovery mode)/i,
+      /cannot execute \w+ in a read-only transaction/i,
+    ],
+  },
+  {
+    name: 'postgresql-too-many-connections',
+    classification: 'pool-exhausted',
+    codes: ['53300'], // too_many_connections
+    messages: [/too many clients already/i, /remaining connection slots are reserved/i],
+  },
+  {
+    name: 'postgresql-serialization',
+    classification: 'retryable-transient',
+    codes: [
+      '40001', // serialization_failure
+      '40P01', // deadlock_detected
+    ],
+    messages: [/could not serialize access/i, /deadlock detected/i],
+  },
+  {
+    name: 'postgresql-auth',
+    classification: 'auth',
+    codes: [
+      '28000', // invalid_authorization_specification
+      '28P01', // invalid_password
+    ],
+    messages: [/password authentication failed/i],
+  },
+];
+
+/**
+ * MySQL rules (server and client error numbers)
+ */
+export const MYSQL_RULES: ErrorRule[] = [
+  {
+    name: 'mysql-connection',
+    classification: 'retryable-connection',
+    codes: [
+      '2002', // CR_CONNECTION_ERROR
+      '2003', // CR_CONN_HOST_ERROR
+      '2006', // CR_SERVER_GONE_ERROR
+      '2013', // CR_SERVER_LOST
+      '4031', // ER_CLIENT_INTERACTION_TIMEOUT
+      '1290', // ER_OPTION_PREVENTS_STATEMENT (--read-only after failover)
+      '1836', // ER_READ_ONLY_MODE
+    ],
+    messages: [
+      /server has gone away/i,
+      /lost connection to (mysql )?server/i,
+      /running with the --(super-)?read-only option/i,
+    ],
+  },
+  {
+    name: 'mysql-too-many-connections',
+    classification: 'pool-exhausted',
+    codes: ['1040'], // ER_CON_COUNT_ERROR
+    messages: [/too many connections/i],
+  },
+  {
+    name: 'mysql-deadlock',
+    classification: 'retryable-transient',
+    codes: [
+      '1213', // ER_LOCK_DEADLOCK
+      '1205', // ER_LOCK_WAIT_TIMEOUT
+    ],
+    messages: [/deadlock found when trying to get lock/i, /lock wait timeout exceeded/i],
+  },
+  {
+    name: 'mysql-auth',
+    classification: 'auth',
+    codes: ['1045'], // ER_ACCESS_DENIED_ERROR
+    messages: [/access denied for user/i],
+  },
+];
+
+/**
+ * SQL Server rules (error numbers)
+ */
+export const SQLSERVER_RULES: ErrorRule[] = [
+  {
+    name: 'sqlserver-connection',
+    classification: 'retryable-connection',
+    codes: [
+      '233', // Connection closed by the server
+      '10053', // Transport-level error, connection aborted
+      '10054', // Transport-level error, connection reset
+      '10060', // Connection timed out
+      '40613', // Azure SQL database unavailable
+      '4221', // Login to read-secondary failed due to long wait
+    ],
+    messages: [/transport-level error/i, /connection was forcibly closed/i],
+  },
+  {
+    name: 'sqlserver-transient',
+    classification: 'retryable-transient',
+    codes: [
+      '1205', // Deadlock victim
+      '40501', // Service is currently busy
+      '49918', // Not enough resources to process request
+      '49919', // Too many create or update operations
+      '49920', // Too many operations in progress
+    ],
+    messages: [/chosen as the deadlock victim/i],
+  },
+  {
+    name: 'sqlserver-resource-limit',
+    classification: 'pool-exhausted',
+    codes: [
+      '10928', // Resource limit reached
+      '10929', // Resource minimum guarantee not available
+    ],
+  },
+  {
+    name: 'sqlserver-auth',
+    classification: 'auth',
+    codes: [
+      '18456', // Login failed
+      '4060', // Cannot open database requested by the login
+    ],
+    messages: [/login failed for user/i],
+  },
+];
+
+/**
+ * CockroachDB rules
+ * CockroachDB speaks the PostgreSQL protocol, so the PostgreSQL rules apply as well
+ */
+export const COCKROACHDB_RULES: ErrorRule[] = [
+  {
+    name: 'cockroachdb-restart',
+    classification: 'retryable-transient',
+    codes: ['40001'], // Transaction restart
+    messages: [/restart transaction/i, /TransactionRetry\w*Error/],
+  },
+  {
+    name: 'cockroachdb-ambiguous-result',
+    classification: 'retryable-connection',
+    codes: ['40003'], // statement_completion_unknown
+    messages: [/result is ambiguous/i],
+  },
+  ...POSTGRESQL_RULES,
+];
+
+/**
+ * MongoDB rules (server error codes and names)
+ */
+export const MONGODB_RULES: ErrorRule[] = [
+  {
+    name: 'mongodb-connection',
+    classification: 'retryable-connection',
+    codes: [
+      '6', // HostUnreachable
+      '7', // HostNotFound
+      '89', // NetworkTimeout
+      '91', // ShutdownInProgress
+      '189', // PrimarySteppedDown
+      '9001', // SocketException
+      '10107', // NotWritablePrimary
+      '11600', // InterruptedAtShutdown
+      '11602', // InterruptedDueToReplStateChange
+      '13435', // NotPrimaryNoSecondaryOk
+      '13436', // NotPrimaryOrSecondary
+    ],
+    messages: [
+      /\((HostUnreachable|HostNotFound|NetworkTimeout|ShutdownInProgress|PrimarySteppedDown|SocketException|NotWritablePrimary|InterruptedAtShutdown|InterruptedDueToReplStateChange|NotPrimaryNoSecondaryOk|NotPrimaryOrSecondary)\)/,
+      /server selection timeout/i,
+      /\bnot primary\b/i,
+    ],
+  },
+  {
+    name: 'mongodb-transient',
+    classification: 'retryable-transient',
+    codes: [
+      '112', // WriteConflict
+      '251', // NoSuchTransaction
+    ],
+    messages: [/TransientTransactionError/, /\((WriteConflict|NoSuchTransaction)\)/],
+  },
+  {
+    name: 'mongodb-auth',
+    classification: 'auth',
+    codes: [
+      '13', // Unauthorized
+      '18', // AuthenticationFailed
+    ],
+    messages: [/\((Unauthorized|AuthenticationFailed)\)/],
+  },
+];
+
+/**
+ * Rule packs by database provider
+ */
+export const RULE_PACKS: Record<DatabaseProvider, ErrorRule[]> = {
+  postgresql: POSTGRESQL_RULES,
+  mysql: MYSQL_RULES,
+  sqlserver: SQLSERVER_RULES,
+  cockroachdb: COCKROACHDB_RULES,
+  mongodb: MONGODB_RULES,
+};
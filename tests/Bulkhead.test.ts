@@ -0,0 +1,81 @@
+/**
+ * Unit tests for Bulkhead
+ */
+
+import { Bulkhead } from '../src/Bulkhead';
+import { BulkheadRejectedError } from '../src';
+
+const options = {
+  maxConcurrent: 2,
+  maxQueueSize: 2,
+  queueTimeoutMs: 1000,
+};
+
+describe('Bulkhead', () => {
+  let saturated: string[];
+  let bulkhead: Bulkhead;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    saturated = [];
+    bulkhead = new Bulkhead('reports', options, (_name, operation) => saturated.push(operation));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should admit operations up to the concurrency limit', async () => {
+    await bulkhead.acquire('report.findMany');
+    await bulkhead.acquire('report.findMany');
+
+    expect(bulkhead.getStats()).toEqual(expect.objectContaining({ active: 2, queued: 0, saturations: 0 }));
+  });
+
+  it('should queue operations over the limit and hand freed slots over in priority order', async () => {
+    await bulkhead.acquire('a');
+    await bulkhead.acquire('b');
+    const admitted: string[] = [];
+    const low = bulkhead.acquire('low').then(() => admitted.push('low'));
+    const high = bulkhead.acquire('high', 5).then(() => admitted.push('high'));
+
+    expect(saturated).toEqual(['low']);
+    expect(bulkhead.getStats()).toEqual(expect.objectContaining({ active: 2, queued: 2, saturations: 1 }));
+
+    bulkhead.release();
+    await high;
+    expect(admitted).toEqual(['high']);
+    expect(bulkhead.getStats()).toEqual(expect.objectContaining({ active: 2, queued: 1 }));
+
+    bulkhead.release();
+    await low;
+    bulkhead.release();
+    bulkhead.release();
+    expect(bulkhead.getStats()).toEqual(expect.objectContaining({ active: 0, queued: 0 }));
+  });
+
+  it('should reject when the queue is full', async () => {
+    await bulkhead.acquire('a');
+    await bulkhead.acquire('b');
+    bulkhead.acquire('c').catch(() => undefined);
+    bulkhead.acquire('d').catch(() => undefined);
+
+    const rejected = bulkhead.acquire('report.findMany');
+
+    await expect(rejected).rejects.toBeInstanceOf(BulkheadRejectedError);
+    await expect(rejected).rejects.toMatchObject({ bulkhead: 'reports', operation: 'report.findMany', reason: 'full' });
+    expect(bulkhead.getStats().rejections).toBe(1);
+  });
+
+  it('should reject operations that wait longer than queueTimeoutMs', async () => {
+    await bulkhead.acquire('a');
+    await bulkhead.acquire('b');
+    const waiting = bulkhead.acquire('c');
+
+    jest.advanceTimersByTime(1000);
+
+    await expect(waiting).rejects.toMatchObject({ reason: 'timeout' });
+    bulkhead.release();
+    expect(bulkhead.getStats()).toEqual(expect.objectContaining({ active: 1, queued: 0, rejections: 1 }));
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Unit tests for CircuitBreaker
+ */
+
+import { CircuitBreaker } from '../src/CircuitBreaker';
+import type { CircuitState } from '../src';
+
+const options = {
+  failureThreshold: 3,
+  failureRateThreshold: 0.5,
+  minimumRequests: 4,
+  windowSize: 10,
+  cooldownMs: 1000,
+  halfOpenMaxRequests: 2,
+};
+
+describe('CircuitBreaker', () => {
+  let transitions: CircuitState[];
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    transitions = [];
+    breaker = new CircuitBreaker(options, (state) => transitions.push(state));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const fail = (times: number) => {
+    for (let i = 0; i < times; i++) {
+      breaker.onFailure(breaker.acquire()!);
+    }
+  };
+
+  it('should open after consecutive failures', () => {
+    fail(2);
+    expect(breaker.getState()).toBe('closed');
+    fail(1);
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.acquire()).toBeNull();
+    expect(transitions).toEqual(['open']);
+  });
+
+  it('should open when the failure rate exceeds the threshold', () => {
+    const succeed = () => breaker.onSuccess(breaker.acquire()!);
+    succeed();
+    succeed();
+    fail(1);
+    expect(breaker.getState()).toBe('closed');
+    fail(1);
+    expect(breaker.getState()).toBe('open');
+  });
+
+  it('should admit limited trial requests after the cooldown', () => {
+    fail(3);
+    expect(breaker.getRetryAfterMs()).toBeGreaterThan(0);
+
+    jest.advanceTimersByTime(1000);
+
+    const first = breaker.acquire();
+    const second = breaker.acquire();
+    expect(first).toEqual({ trial: true });
+    expect(second).toEqual({ trial: true });
+    expect(breaker.acquire()).toBeNull();
+    expect(breaker.getState()).toBe('half-open');
+
+    breaker.onSuccess(first!);
+    breaker.onSuccess(second!);
+    expect(breaker.getState()).toBe('closed');
+    expect(transitions).toEqual(['open', 'half-open', 'closed']);
+  });
+
+  it('should reopen when a trial request fails', () => {
+    fail(3);
+    jest.advanceTimersByTime(1000);
+
+    breaker.onFailure(breaker.acquire()!);
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.getTotalOpens()).toBe(2);
+  });
+});
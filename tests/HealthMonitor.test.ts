@@ -0,0 +1,79 @@
+/**
+ * Unit tests for HealthMonitor
+ */
+
+import { HealthMonitor } from '../src/HealthMonitor';
+
+const options = {
+  degradedThreshold: 1,
+  unhealthyThreshold: 3,
+  recoveryThreshold: 2,
+  historySize: 3,
+};
+
+describe('HealthMonitor', () => {
+  let monitor: HealthMonitor;
+  let checks: number;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    monitor = new HealthMonitor(options);
+    checks = 0;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const record = (status: 'healthy' | 'unhealthy', times: number = 1) => {
+    for (let i = 0; i < times; i++) {
+      checks++;
+      monitor.record({ timestamp: String(checks), status });
+    }
+  };
+
+  it('should degrade on the first failure and become unhealthy at the threshold', () => {
+    record('unhealthy');
+    expect(monitor.getState()).toBe('degraded');
+    record('unhealthy');
+    expect(monitor.getState()).toBe('degraded');
+    record('unhealthy');
+    expect(monitor.getState()).toBe('unhealthy');
+  });
+
+  it('should need consecutive successes to become healthy again', () => {
+    record('unhealthy', 3);
+    record('healthy');
+    record('unhealthy');
+    record('healthy');
+    expect(monitor.getState()).toBe('unhealthy');
+
+    record('healthy');
+    expect(monitor.getState()).toBe('healthy');
+  });
+
+  it('should reset the failure count on success', () => {
+    record('unhealthy', 2);
+    record('healthy');
+    record('unhealthy', 2);
+    expect(monitor.getState()).toBe('degraded');
+  });
+
+  it('should track when the state last changed', () => {
+    const createdAt = monitor.getLastStateChange();
+    jest.advanceTimersByTime(1000);
+    record('healthy');
+    expect(monitor.getLastStateChange()).toBe(createdAt);
+
+    record('unhealthy');
+    expect(monitor.getLastStateChange()).toBe(createdAt + 1000);
+  });
+
+  it('should keep the most recent checks, oldest first', () => {
+    record('healthy', 2);
+    expect(monitor.getHistory().map((entry) => entry.timestamp)).toEqual(['1', '2']);
+
+    record('unhealthy', 3);
+    expect(monitor.getHistory().map((entry) => entry.timestamp)).toEqual(['3', '4', '5']);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Unit tests for LatencyWindow
+ */
+
+import { LatencyWindow } from '../src/LatencyWindow';
+
+describe('LatencyWindow', () => {
+  const start = 1_000_000;
+
+  it('should report zeros when nothing was recorded', () => {
+    const window = new LatencyWindow({ windowMs: 60000, segments: 6 });
+
+    expect(window.getPercentiles(start)).toEqual({ count: 0, p50: 0, p95: 0, p99: 0, max: 0 });
+  });
+
+  it('should estimate percentiles within 2.5%', () => {
+    const window = new LatencyWindow({ windowMs: 60000, segments: 6 });
+    for (let duration = 1; duration <= 1000; duration++) {
+      window.record(duration, start);
+    }
+
+    const percentiles = window.getPercentiles(start);
+
+    expect(percentiles.count).toBe(1000);
+    expect(percentiles.max).toBe(1000);
+    expect(Math.abs(percentiles.p50 - 500) / 500).toBeLessThanOrEqual(0.025);
+    expect(Math.abs(percentiles.p95 - 950) / 950).toBeLessThanOrEqual(0.025);
+    expect(Math.abs(percentiles.p99 - 990) / 990).toBeLessThanOrEqual(0.025);
+  });
+
+  it('should return exact values when every duration is the same', () => {
+    const window = new LatencyWindow({ windowMs: 60000, segments: 6 });
+    for (let i = 0; i < 10; i++) {
+      window.record(42, start);
+    }
+
+    expect(window.getPercentiles(start)).toEqual({ count: 10, p50: 42, p95: 42, p99: 42, max: 42 });
+  });
+
+  it('should report the recorded extremes for the first and last ranks', () => {
+    const window = new LatencyWindow({ windowMs: 60000, segments: 6 });
+    window.record(1, start);
+    window.record(51, start);
+
+    expect(window.getPercentiles(start)).toEqual({ count: 2, p50: 1, p95: 51, p99: 51, max: 51 });
+  });
+
+  it('should count zero durations', () => {
+    const window = new LatencyWindow({ windowMs: 60000, segments: 6 });
+    window.record(0, start);
+    window.record(0, start);
+    window.record(100, start);
+
+    expect(window.getPercentiles(start)).toMatchObject({ count: 3, p50: 0, p99: 100 });
+  });
+
+  it('should drop durations once the window moves past their segment', () => {
+    const window = new LatencyWindow({ windowMs: 60000, segments: 6 });
+    window.record(5000, start);
+    window.record(10, start + 30000);
+
+    expect(window.getPercentiles(start + 59000)).toMatchObject({ count: 2, max: 5000 });
+    expect(window.getPercentiles(start + 70000)).toEqual({ count: 1, p50: 10, p95: 10, p99: 10, max: 10 });
+    expect(window.getPercentiles(start + 200000).count).toBe(0);
+  });
+
+  it('should reuse a segment slot after a full turn of the ring', () => {
+    const window = new LatencyWindow({ windowMs: 60000, segments: 6 });
+    window.record(5000, start);
+    window.record(10, start + 60000);
+
+    expect(window.getPercentiles(start + 60000)).toMatchObject({ count: 1, max: 10 });
+  });
+});
@@ -2,8 +2,36 @@
  * Unit tests for ResilientPrismaClient
  */
 
-import { ResilientPrismaClient } from '../src';
+import {
+  ResilientPrismaClient,
+  CircuitOpenError,
+  QueueRejectedError,
+  QueryTimeoutError,
+  OperationAbortedError,
+  ReconnectFailedError,
+  ResilientPrismaError,
+  StartupError,
+  ShutdownError,
+  PausedError,
+} from '../src';
+import type { ResilientConfig } from '../src';
 import { PrismaClient } from '@prisma/client';
+import { silentLogger } from './helpers';
+
+/**
+ * Lazy thenable mimicking Prisma's PrismaPromise: runs only when awaited or batched
+ */
+function mockPrismaPromise(run: () => Promise<any>, relations: Record<string, () => any> = {}): any {
+  let result: Promise<any> | undefined;
+  return {
+    then: (onFulfilled: any, onRejected: any) => (result ??= run()).then(onFulfilled, onRejected),
+    catch: (onRejected: any) => (result ??= run()).catch(onRejected),
+    finally: (onFinally: any) => (result ??= run()).finally(onFinally),
+    requestTransaction: () => run(),
+    [Symbol.toStringTag]: 'PrismaPromise',
+    ...relations,
+  };
+}
 
 // Mock PrismaClient
 jest.mock('@prisma/client', () => {
@@ -13,6 +41,22 @@ jest.mock('@prisma/client', () => {
         $connect: jest.fn().mockResolvedValue(undefined),
         $disconnect: jest.fn().mockResolvedValue(undefined),
         $queryRaw: jest.fn().mockResolvedValue([{ result: 1 }]),
+        $transaction: jest.fn().mockImplementation(async (arg: any) => {
+          if (typeof arg === 'function') {
+            return arg({ isTransactionClient: true });
+          }
+          if (arg.some((item: any) => item?.[Symbol.toStringTag] !== 'PrismaPromise')) {
+            throw new Error('All elements of the array need to be Prisma Client promises.');
+          }
+          return Promise.all(arg.map((item: any) => item.requestTransaction({ kind: 'batch' })));
+        }),
+        user: {
+          findMany: jest.fn().mockResolvedValue([]),
+          create: jest.fn().mockResolvedValue({ id: 1 }),
+        },
+        post: {
+          update: jest.fn(),
+        },
       };
     }),
   };
@@ -22,6 +66,16 @@ describe('ResilientPrismaClient', () => {
   let client: any;
   let mockPrisma: any;
 
+  const logging: ResilientConfig['logging'] = { level: 'error', logger: silentLogger };
+
+  /**
+   * Create the client under test with logging silenced
+   */
+  const createClient = (config: ResilientConfig = {}, prismaOrFactory: any = mockPrisma) => {
+    client = new ResilientPrismaClient(prismaOrFactory, { ...config, logging });
+    return client;
+  };
+
   beforeEach(() => {
     jest.clearAllMocks();
     mockPrisma = new PrismaClient();
@@ -85,6 +139,94 @@ describe('ResilientPrismaClient', () => {
       expect(health).toHaveProperty('database');
       expect(['healthy', 'unhealthy']).toContain(health.status);
     });
+
+    it('should ping MongoDB instead of running SQL', async () => {
+      mockPrisma.$runCommandRaw = jest.fn().mockResolvedValue({ ok: 1 });
+      createClient({
+        provider: 'mongodb',
+      });
+
+      const health = await client.healthCheck();
+
+      expect(health.status).toBe('healthy');
+      expect(mockPrisma.$runCommandRaw).toHaveBeenCalledWith({ ping: 1 });
+      expect(mockPrisma.$queryRaw).not.toHaveBeenCalled();
+    });
+
+    it('should combine custom probe results', async () => {
+      const writable = jest.fn().mockRejectedValue(new Error('database is a read-only replica'));
+      createClient({
+        healthCheck: { probes: [{ name: 'writable', check: writable }] },
+      });
+
+      const health = await client.healthCheck();
+
+      expect(writable).toHaveBeenCalledWith(mockPrisma);
+      expect(health).toEqual(expect.objectContaining({
+        status: 'unhealthy',
+        database: 'connected',
+        error: 'writable: database is a read-only replica',
+      }));
+      expect(health.probes).toEqual([
+        expect.objectContaining({ name: 'database', status: 'pass' }),
+        expect.objectContaining({ name: 'writable', status: 'fail' }),
+      ]);
+    });
+
+    it('should fail probes that exceed their timeout', async () => {
+      createClient({
+        healthCheck: {
+          timeoutMs: 1000,
+          probes: [{ name: 'slow', check: () => new Promise(() => undefined), timeoutMs: 20 }],
+        },
+      });
+
+      const health = await client.healthCheck();
+
+      expect(health.status).toBe('unhealthy');
+      expect(health.probes[1]).toEqual(expect.objectContaining({
+        name: 'slow',
+        status: 'fail',
+        error: 'Probe timed out after 20ms',
+      }));
+    });
+
+    it('should emit health:change and reconnect once the state becomes unhealthy', async () => {
+      createClient({
+        healthCheck: { unhealthyThreshold: 2, recoveryAction: 'reconnect' },
+        reconnect: { initialDelay: 1 },
+      });
+      await client.ready();
+      const changes: string[] = [];
+      client.on('health:change', (state: string, previous: string) => changes.push(`${previous}->${state}`));
+      mockPrisma.$queryRaw.mockRejectedValue(new Error('Connection refused'));
+
+      await client.healthCheck();
+      expect(mockPrisma.$disconnect).not.toHaveBeenCalled();
+      const health = await client.healthCheck();
+
+      expect(health.state).toBe('unhealthy');
+      expect(changes).toEqual(['healthy->degraded', 'degraded->unhealthy']);
+      expect(client.isConnected()).toBe(false);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      expect(client.getConnectionStats()).toEqual(expect.objectContaining({ totalReconnects: 1, healthState: 'unhealthy' }));
+    });
+
+    it('should return the history and the last state change', async () => {
+      createClient();
+      await client.ready();
+
+      await client.healthCheck();
+      const health = await client.healthCheck({ history: true });
+
+      expect(health.state).toBe('healthy');
+      expect(typeof health.lastStateChange).toBe('string');
+      expect(health.history).toEqual([
+        expect.objectContaining({ status: 'healthy', latency: expect.any(Number) }),
+        expect.objectContaining({ status: 'healthy' }),
+      ]);
+      expect((await client.healthCheck()).history).toBeUndefined();
+    });
   });
 
   describe('Event system', () => {
@@ -110,6 +252,1039 @@ describe('ResilientPrismaClient', () => {
     });
   });
 
+  describe('Single-flight recovery', () => {
+    it('should run one reconnect for concurrent connection failures', async () => {
+      createClient({
+        reconnect: { maxAttempts: 3, initialDelay: 10 },
+        retryPolicy: { overrides: { $queryRaw: true } },
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const connectionError = Object.assign(new Error('Server has closed the connection'), { code: 'P1017' });
+      for (let i = 0; i < 5; i++) {
+        mockPrisma.$queryRaw.mockRejectedValueOnce(connectionError);
+      }
+      const reconnectListener = jest.fn();
+      client.on('reconnect', reconnectListener);
+
+      const prisma = client.getClient();
+      const results = await Promise.all(
+        Array.from({ length: 5 }, () => prisma.$queryRaw`SELECT 1`)
+      );
+
+      expect(results).toHaveLength(5);
+      expect(reconnectListener).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.$disconnect).toHaveBeenCalledTimes(1);
+      expect(client.getConnectionStats().totalReconnects).toBe(1);
+    });
+
+    it('should let reconnect() join a recovery in progress', async () => {
+      createClient({
+        reconnect: { initialDelay: 10 },
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      await Promise.all([client.reconnect(), client.reconnect(), client.reconnect()]);
+
+      expect(mockPrisma.$disconnect).toHaveBeenCalledTimes(1);
+      expect(client.getConnectionStats().totalReconnects).toBe(1);
+    });
+  });
+
+  describe('Typed errors', () => {
+    it('should keep the Prisma error as the cause when reconnecting fails', async () => {
+      createClient({
+        reconnect: { maxAttempts: 2, initialDelay: 1 },
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      const unreachable = Object.assign(new Error("Can't reach database server"), { code: 'P1001' });
+      mockPrisma.$connect.mockRejectedValue(unreachable);
+
+      const reconnect = client.reconnect();
+
+      await expect(reconnect).rejects.toBeInstanceOf(ReconnectFailedError);
+      await expect(reconnect).rejects.toBeInstanceOf(ResilientPrismaError);
+      await expect(reconnect).rejects.toMatchObject({
+        operation: 'reconnect',
+        attempts: 2,
+        elapsedMs: expect.any(Number),
+        cause: unreachable,
+      });
+    });
+
+    it('should not start a second reconnect after the first one gave up', async () => {
+      createClient({
+        reconnect: { maxAttempts: 2, initialDelay: 1 },
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      mockPrisma.$connect.mockRejectedValue(Object.assign(new Error("Can't reach database server"), { code: 'P1001' }));
+      mockPrisma.user.findMany.mockRejectedValueOnce(
+        Object.assign(new Error('Server has closed the connection'), { code: 'P1017' })
+      );
+
+      await expect(client.getClient().user.findMany()).rejects.toBeInstanceOf(ReconnectFailedError);
+      expect(mockPrisma.$connect).toHaveBeenCalledTimes(3); // initial connect + 2 attempts
+    });
+
+    it('should report attempts and the last error on timeouts', async () => {
+      createClient({
+        reconnect: { initialDelay: 100 },
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      const closed = Object.assign(new Error('Server has closed the connection'), { code: 'P1017' });
+      mockPrisma.user.findMany.mockRejectedValueOnce(closed);
+
+      await expect(
+        client.withOptions({ timeoutMs: 30 }, () => client.getClient().user.findMany())
+      ).rejects.toMatchObject({ name: 'QueryTimeoutError', operation: 'user.findMany', attempts: 1, cause: closed });
+      await new Promise(resolve => setTimeout(resolve, 150));
+    });
+  });
+
+  describe('Wait queue', () => {
+    it('should park operations during a reconnect and reject overflow', async () => {
+      createClient({
+        reconnect: { initialDelay: 50 },
+        queue: { maxSize: 2 },
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const reconnecting = client.reconnect();
+      const prisma = client.getClient();
+      const queued = [prisma.user.findMany().then((r: unknown) => r), prisma.user.findMany().then((r: unknown) => r)];
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(client.getConnectionStats().queueDepth).toBe(2);
+      await expect(prisma.user.findMany()).rejects.toBeInstanceOf(QueueRejectedError);
+
+      await reconnecting;
+      await expect(Promise.all(queued)).resolves.toEqual([[], []]);
+
+      const stats = client.getConnectionStats();
+      expect(stats).toEqual(expect.objectContaining({ queueDepth: 0, totalQueued: 2, queueRejections: 1 }));
+      expect(stats.maxQueueWaitMs).toBeGreaterThan(0);
+      expect(stats.errorCount).toBe(0);
+    });
+
+    it('should reject operations that wait longer than maxWaitMs', async () => {
+      createClient({
+        reconnect: { initialDelay: 100 },
+        queue: { maxWaitMs: 20 },
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const reconnecting = client.reconnect();
+
+      await expect(client.getClient().user.findMany()).rejects.toMatchObject({ reason: 'timeout' });
+      await reconnecting;
+    });
+  });
+
+  describe('Bulkheads', () => {
+    it('should keep a saturated group from starving other operations', async () => {
+      createClient({
+        bulkhead: {
+          enabled: true,
+          maxConcurrent: 10,
+          groups: { users: { operations: ['user.*'], maxConcurrent: 1, maxQueueSize: 1 } },
+        },
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const saturated = jest.fn();
+      const rejected = jest.fn();
+      client.on('bulkhead:saturated', saturated);
+      client.on('bulkhead:rejected', rejected);
+
+      let finishSlowQuery!: (value: unknown) => void;
+      mockPrisma.user.findMany.mockReturnValueOnce(new Promise(resolve => { finishSlowQuery = resolve; }));
+      mockPrisma.post.update.mockResolvedValue({ id: 1 });
+
+      const prisma = client.getClient();
+      const slow = prisma.user.findMany().then((r: unknown) => r);
+      const queued = prisma.user.findMany().then((r: unknown) => r);
+      await new Promise(resolve => setImmediate(resolve));
+
+      await expect(prisma.post.update({ where: { id: 1 }, data: {} })).resolves.toEqual({ id: 1 });
+      await expect(prisma.user.create({ data: {} })).rejects.toMatchObject({ bulkhead: 'users', reason: 'full' });
+      expect(saturated).toHaveBeenCalledWith('users', 'user.findMany');
+      expect(rejected).toHaveBeenCalledWith('users', 'user.create', 'full');
+      expect(client.getConnectionStats().bulkheads.users).toEqual(
+        expect.objectContaining({ active: 1, maxConcurrent: 1, queued: 1, saturations: 1, rejections: 1 })
+      );
+
+      finishSlowQuery([]);
+      await expect(Promise.all([slow, queued])).resolves.toEqual([[], []]);
+
+      const stats = client.getConnectionStats().bulkheads;
+      expect(stats.users).toEqual(expect.objectContaining({ active: 0, queued: 0 }));
+      expect(stats.global).toEqual(expect.objectContaining({ active: 0, maxConcurrent: 10 }));
+      expect(mockPrisma.user.create).not.toHaveBeenCalled();
+    });
+
+    it('should report no bulkheads when disabled', async () => {
+      createClient();
+      expect(client.getConnectionStats().bulkheads).toEqual({});
+    });
+  });
+
+  describe('Pool exhaustion', () => {
+    const poolTimeout = () =>
+      Object.assign(new Error('Timed out fetching a new connection from the connection pool'), { code: 'P2024' });
+
+    it('should retry after a short delay without reconnecting', async () => {
+      createClient({
+        poolExhaustion: { initialDelay: 1, maxDelay: 5 },
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const exhausted = jest.fn();
+      const disconnected = jest.fn();
+      client.on('pool:exhausted', exhausted);
+      client.on('disconnect', disconnected);
+      mockPrisma.user.create.mockRejectedValueOnce(poolTimeout()).mockRejectedValueOnce(poolTimeout());
+
+      await expect(client.getClient().user.create({ data: {} })).resolves.toEqual({ id: 1 });
+
+      expect(mockPrisma.user.create).toHaveBeenCalledTimes(3);
+      expect(exhausted.mock.calls).toEqual([['user.create', 1], ['user.create', 2]]);
+      expect(disconnected).not.toHaveBeenCalled();
+      expect(mockPrisma.$disconnect).not.toHaveBeenCalled();
+      expect(client.getConnectionStats()).toEqual(
+        expect.objectContaining({ isConnected: true, poolExhaustedCount: 2, errorCount: 0 })
+      );
+    });
+
+    it('should give up after maxRetries and keep the connection', async () => {
+      createClient({
+        poolExhaustion: { maxRetries: 1, initialDelay: 1 },
+        reconnect: { maxConsecutiveErrors: 1 },
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      mockPrisma.user.findMany.mockRejectedValue(poolTimeout());
+
+      await expect(client.getClient().user.findMany()).rejects.toMatchObject({ code: 'P2024' });
+
+      expect(mockPrisma.user.findMany).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.$disconnect).not.toHaveBeenCalled();
+      expect(client.getConnectionStats()).toEqual(
+        expect.objectContaining({ isConnected: true, consecutiveErrors: 0, errorCount: 1 })
+      );
+    });
+
+    it('should reconnect once pool timeouts persist past reconnectAfterMs', async () => {
+      createClient({
+        poolExhaustion: { maxRetries: 0, reconnectAfterMs: 20 },
+        reconnect: { initialDelay: 1 },
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      mockPrisma.user.findMany.mockRejectedValueOnce(poolTimeout());
+      await expect(client.getClient().user.findMany()).rejects.toMatchObject({ code: 'P2024' });
+      expect(mockPrisma.$disconnect).not.toHaveBeenCalled();
+
+      await new Promise(resolve => setTimeout(resolve, 25));
+      mockPrisma.user.findMany.mockRejectedValueOnce(poolTimeout());
+
+      await expect(client.getClient().user.findMany()).resolves.toEqual([]);
+      expect(mockPrisma.$disconnect).toHaveBeenCalledTimes(1);
+      expect(client.getConnectionStats().totalReconnects).toBe(1);
+    });
+  });
+
+  describe('Deadlines', () => {
+    it('should cover reconnect time and stop retrying once the deadline passes', async () => {
+      createClient({
+        reconnect: { initialDelay: 100 },
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      mockPrisma.user.findMany.mockRejectedValueOnce(
+        Object.assign(new Error('Server has closed the connection'), { code: 'P1017' })
+      );
+
+      const query = client.withOptions({ timeoutMs: 30 }, () => client.getClient().user.findMany());
+
+      await expect(query).rejects.toBeInstanceOf(QueryTimeoutError);
+      await expect(query).rejects.toMatchObject({ operation: 'user.findMany', timeoutMs: 30 });
+      await new Promise(resolve => setTimeout(resolve, 150));
+      expect(client.getConnectionStats().totalReconnects).toBe(1);
+      expect(mockPrisma.user.findMany).toHaveBeenCalledTimes(1);
+      expect(client.getConnectionStats().totalTimeouts).toBe(1);
+    });
+
+    it('should apply the default deadline to every operation', async () => {
+      createClient({
+        timeout: { defaultMs: 20 },
+        shutdown: { gracePeriodMs: 20 },
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      mockPrisma.user.findMany.mockReturnValueOnce(new Promise(() => undefined));
+
+      await expect(client.getClient().user.findMany()).rejects.toBeInstanceOf(QueryTimeoutError);
+      await expect(client.getClient().user.findMany()).resolves.toEqual([]);
+    });
+
+    it('should cancel an operation through its AbortSignal', async () => {
+      createClient();
+      await new Promise(resolve => setTimeout(resolve, 10));
+      mockPrisma.user.findMany.mockReturnValueOnce(new Promise(() => undefined));
+      const controller = new AbortController();
+
+      const query = client.withOptions({ signal: controller.signal }, () => client.getClient().user.findMany());
+      controller.abort('client went away');
+
+      await expect(query).rejects.toBeInstanceOf(OperationAbortedError);
+      await expect(query).rejects.toMatchObject({ reason: 'client went away' });
+    });
+
+    it('should not start an operation whose signal is already aborted', async () => {
+      createClient();
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        client.withOptions({ signal: controller.signal }, () => client.getClient().user.create({ data: {} }))
+      ).rejects.toBeInstanceOf(OperationAbortedError);
+      expect(mockPrisma.user.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Retry policy', () => {
+    const connectionClosed = () => Object.assign(new Error('Server has closed the connection'), { code: 'P1017' });
+
+    it('should retry reads after an ambiguous failure', async () => {
+      createClient({
+        reconnect: { initialDelay: 1 },
+      });
+      mockPrisma.user.findMany.mockRejectedValueOnce(connectionClosed());
+
+      await expect(client.getClient().user.findMany()).resolves.toEqual([]);
+      expect(mockPrisma.user.findMany).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry writes after an ambiguous failure', async () => {
+      createClient({
+        reconnect: { initialDelay: 1 },
+      });
+      mockPrisma.user.create.mockRejectedValueOnce(connectionClosed());
+
+      await expect(client.getClient().user.create({ data: {} })).rejects.toThrow('Server has closed the connection');
+      expect(mockPrisma.user.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry raw queries after an ambiguous failure unless marked safe', async () => {
+      createClient({
+        reconnect: { initialDelay: 1 },
+      });
+      mockPrisma.$queryRaw.mockRejectedValueOnce(connectionClosed()).mockRejectedValueOnce(connectionClosed());
+      const prisma = client.getClient();
+
+      await expect(prisma.$queryRaw`INSERT INTO log DEFAULT VALUES RETURNING id`).rejects.toThrow(
+        'Server has closed the connection'
+      );
+      expect(mockPrisma.$queryRaw).toHaveBeenCalledTimes(1);
+
+      await expect(client.withOptions({ idempotent: true }, () => prisma.$queryRaw`SELECT 1`)).resolves.toEqual([
+        { result: 1 },
+      ]);
+      expect(mockPrisma.$queryRaw).toHaveBeenCalledTimes(3);
+    });
+
+    it('should retry writes when the request never reached the server', async () => {
+      createClient({
+        reconnect: { initialDelay: 1 },
+      });
+      mockPrisma.user.create.mockRejectedValueOnce(
+        Object.assign(new Error("Can't reach database server"), { code: 'P1001' })
+      );
+
+      await expect(client.getClient().user.create({ data: {} })).resolves.toEqual({ id: 1 });
+      expect(mockPrisma.user.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry once the retry budget is exhausted', async () => {
+      createClient({
+        reconnect: { initialDelay: 1 },
+        retryBudget: { enabled: true, ratio: 0, minRetriesPerSecond: 0 },
+      });
+      const exhausted = jest.fn();
+      client.on('retry:budget-exhausted', exhausted);
+      mockPrisma.user.findMany.mockRejectedValueOnce(connectionClosed());
+
+      await expect(client.getClient().user.findMany()).rejects.toMatchObject({ code: 'P1017' });
+
+      expect(mockPrisma.user.findMany).toHaveBeenCalledTimes(1);
+      expect(exhausted).toHaveBeenCalledWith('user.findMany');
+      expect(client.getConnectionStats().retryBudgetRejections).toBe(1);
+    });
+
+    it('should retry writes marked safe by config or per call', async () => {
+      createClient({
+        reconnect: { initialDelay: 1 },
+        retryPolicy: { overrides: { 'user.create': true } },
+      });
+      const prisma = client.getClient();
+
+      mockPrisma.user.create.mockRejectedValueOnce(connectionClosed());
+      await expect(prisma.user.create({ data: {} })).resolves.toEqual({ id: 1 });
+
+      mockPrisma.user.create.mockRejectedValueOnce(connectionClosed());
+      await expect(
+        client.withOptions({ idempotent: false }, () => prisma.user.create({ data: {} }))
+      ).rejects.toThrow('Server has closed the connection');
+    });
+  });
+
+  describe('PrismaPromise semantics', () => {
+    it('should not run queries until awaited', async () => {
+      createClient();
+      const run = jest.fn().mockResolvedValue({ id: 1 });
+      mockPrisma.user.create = jest.fn(() => mockPrismaPromise(run));
+
+      const pending = client.getClient().user.create({ data: {} });
+      expect(run).not.toHaveBeenCalled();
+
+      await expect(pending).resolves.toEqual({ id: 1 });
+      await pending;
+      expect(run).toHaveBeenCalledTimes(1);
+    });
+
+    it('should support batch $transaction with wrapped operations', async () => {
+      createClient();
+      const createRun = jest.fn().mockResolvedValue({ id: 1 });
+      const updateRun = jest.fn().mockResolvedValue({ id: 2 });
+      mockPrisma.user.create = jest.fn(() => mockPrismaPromise(createRun));
+      mockPrisma.post.update = jest.fn(() => mockPrismaPromise(updateRun));
+
+      const prisma = client.getClient();
+      const results = await prisma.$transaction([
+        prisma.user.create({ data: {} }),
+        prisma.post.update({ where: { id: 2 }, data: {} }),
+      ]);
+
+      expect(results).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(createRun).toHaveBeenCalledTimes(1);
+      expect(updateRun).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry batch transactions by re-requesting every operation', async () => {
+      createClient({
+        reconnect: { initialDelay: 1 },
+        retryPolicy: { overrides: { $transaction: true } },
+      });
+      const createRun = jest.fn()
+        .mockRejectedValueOnce(Object.assign(new Error('Server has closed the connection'), { code: 'P1017' }))
+        .mockResolvedValue({ id: 1 });
+      mockPrisma.user.create = jest.fn(() => mockPrismaPromise(createRun));
+
+      const prisma = client.getClient();
+      await expect(prisma.$transaction([prisma.user.create({ data: {} })])).resolves.toEqual([{ id: 1 }]);
+      expect(createRun).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep the fluent relation API reachable', async () => {
+      createClient();
+      const postsRun = jest.fn().mockResolvedValue([{ id: 10 }]);
+      mockPrisma.user.findUnique = jest.fn(() =>
+        mockPrismaPromise(jest.fn().mockResolvedValue({ id: 1 }), {
+          posts: () => mockPrismaPromise(postsRun),
+        })
+      );
+
+      const posts = await client.getClient().user.findUnique({ where: { id: 1 } }).posts();
+      expect(posts).toEqual([{ id: 10 }]);
+      expect(postsRun).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Interactive transactions', () => {
+    const writeConflict = () =>
+      Object.assign(new Error('Transaction failed due to a write conflict or a deadlock'), { code: 'P2034' });
+
+    it('should retry the whole callback on write conflicts', async () => {
+      createClient({
+        transaction: { initialDelay: 1 },
+      });
+      const retryListener = jest.fn();
+      client.on('transaction:retry', retryListener);
+
+      const callback = jest.fn()
+        .mockRejectedValueOnce(writeConflict())
+        .mockResolvedValueOnce('committed');
+
+      await expect(client.getClient().$transaction(callback)).resolves.toBe('committed');
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect(callback).toHaveBeenCalledWith({ isTransactionClient: true });
+      expect(retryListener).toHaveBeenCalledWith(1, expect.any(Error));
+      expect(client.getConnectionStats().transactionRetries).toBe(1);
+    });
+
+    it('should give up after maxAttempts', async () => {
+      createClient({
+        transaction: { maxAttempts: 2, initialDelay: 1 },
+      });
+      const callback = jest.fn().mockRejectedValue(writeConflict());
+
+      await expect(client.getClient().$transaction(callback)).rejects.toThrow('write conflict');
+      expect(callback).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not replay the callback after an ambiguous connection failure', async () => {
+      createClient({
+        reconnect: { initialDelay: 1 },
+      });
+      const callback = jest.fn().mockRejectedValueOnce(
+        Object.assign(new Error('Server has closed the connection'), { code: 'P1017' })
+      );
+
+      await expect(client.getClient().$transaction(callback)).rejects.toThrow('Server has closed the connection');
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Tracing', () => {
+    /**
+     * Tracer recording every span it starts
+     */
+    function createRecordingTracer() {
+      const spans: any[] = [];
+      const tracer = {
+        startSpan: jest.fn((name: string, options?: any) => {
+          const span = {
+            name,
+            kind: options?.kind,
+            attributes: { ...options?.attributes } as Record<string, unknown>,
+            events: [] as Array<{ name: string; attributes?: any }>,
+            exceptions: [] as unknown[],
+            status: undefined as any,
+            ended: false,
+            setAttribute: (key: string, value: unknown) => {
+              span.attributes[key] = value;
+            },
+            addEvent: (eventName: string, attributes?: any) => {
+              span.events.push({ name: eventName, attributes });
+            },
+            recordException: (exception: unknown) => {
+              span.exceptions.push(exception);
+            },
+            setStatus: (status: any) => {
+              span.status = status;
+            },
+            end: () => {
+              span.ended = true;
+            },
+          };
+          spans.push(span);
+          return span;
+        }),
+      };
+      return { tracer, spans };
+    }
+
+    it('should create a span per operation named after it', async () => {
+      const { tracer, spans } = createRecordingTracer();
+      createClient({
+        tracing: { tracer },
+      });
+
+      await client.getClient().user.findMany();
+
+      expect(spans).toHaveLength(1);
+      expect(spans[0]).toMatchObject({
+        name: 'user.findMany',
+        kind: 2,
+        ended: true,
+        status: undefined,
+        attributes: {
+          'db.operation.name': 'user.findMany',
+          'prisma_resilient.outcome': 'success',
+          'prisma_resilient.attempts': 1,
+        },
+      });
+    });
+
+    it('should record the error and its classification on failed operations', async () => {
+      const { tracer, spans } = createRecordingTracer();
+      createClient({
+        tracing: { tracer },
+      });
+      const uniqueViolation = Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+      mockPrisma.user.create.mockRejectedValueOnce(uniqueViolation);
+
+      await expect(client.getClient().user.create({ data: {} })).rejects.toBe(uniqueViolation);
+
+      expect(spans[0]).toMatchObject({
+        name: 'user.create',
+        ended: true,
+        status: { code: 2, message: 'Unique constraint failed' },
+        exceptions: [uniqueViolation],
+        attributes: {
+          'prisma_resilient.outcome': 'error',
+          'prisma_resilient.error.classification': 'fatal',
+        },
+      });
+    });
+
+    it('should add retry events and a reconnect span after a connection failure', async () => {
+      const { tracer, spans } = createRecordingTracer();
+      createClient({
+        reconnect: { initialDelay: 1 },
+        tracing: { tracer },
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      mockPrisma.user.findMany.mockRejectedValueOnce(
+        Object.assign(new Error('Server has closed the connection'), { code: 'P1017' })
+      );
+
+      await client.getClient().user.findMany();
+
+      const operation = spans.find((span) => span.name === 'user.findMany');
+      const reconnect = spans.find((span) => span.name === 'prisma_resilient.reconnect');
+      expect(operation.events).toEqual([
+        {
+          name: 'retry',
+          attributes: {
+            'prisma_resilient.attempt': 2,
+            'prisma_resilient.retry.reason': 'reconnect',
+            'prisma_resilient.error.classification': 'retryable-connection',
+          },
+        },
+      ]);
+      expect(operation.attributes['prisma_resilient.attempts']).toBe(2);
+      expect(reconnect).toMatchObject({ kind: 0, ended: true, status: undefined });
+      expect(reconnect.attributes['prisma_resilient.attempts']).toBe(1);
+      expect(reconnect.events.map((event: any) => event.name)).toEqual(['reconnect.attempt', 'backoff']);
+    });
+
+    it('should trace the hard reset of the final reconnect attempt as a child span', async () => {
+      const { tracer, spans } = createRecordingTracer();
+      createClient({
+        reconnect: { maxAttempts: 1 },
+        tracing: { tracer },
+      }, () => new PrismaClient());
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      await client.reconnect();
+
+      expect(spans.map((span) => span.name)).toEqual(['prisma_resilient.reconnect', 'prisma_resilient.hard_reset']);
+      expect(spans.every((span) => span.ended)).toBe(true);
+    });
+
+    it('should add backoff events for pool exhaustion and transaction conflicts', async () => {
+      const { tracer, spans } = createRecordingTracer();
+      createClient({
+        poolExhaustion: { initialDelay: 1, maxDelay: 5 },
+        transaction: { initialDelay: 1 },
+        tracing: { tracer },
+      });
+      mockPrisma.user.create.mockRejectedValueOnce(
+        Object.assign(new Error('Timed out fetching a new connection from the connection pool'), { code: 'P2024' })
+      );
+      const callback = jest.fn()
+        .mockRejectedValueOnce(
+          Object.assign(new Error('Transaction failed due to a write conflict or a deadlock'), { code: 'P2034' })
+        )
+        .mockResolvedValueOnce('committed');
+
+      await client.getClient().user.create({ data: {} });
+      await client.getClient().$transaction(callback);
+
+      const [create, transaction] = spans;
+      expect(create.events.map((event: any) => event.name)).toEqual(['retry', 'backoff']);
+      expect(create.events[0].attributes['prisma_resilient.retry.reason']).toBe('pool-exhausted');
+      expect(transaction.name).toBe('$transaction');
+      expect(transaction.events.map((event: any) => event.name)).toEqual(['retry', 'backoff']);
+      expect(transaction.events[0].attributes).toMatchObject({
+        'prisma_resilient.attempt': 2,
+        'prisma_resilient.retry.reason': 'transaction-conflict',
+      });
+    });
+
+    it('should not create spans when disabled', async () => {
+      const { tracer } = createRecordingTracer();
+      createClient({
+        tracing: { enabled: false, tracer },
+      });
+
+      await client.getClient().user.findMany();
+
+      expect(tracer.startSpan).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Operation stats', () => {
+    it('should count operations, errors by classification and retries per operation', async () => {
+      createClient({
+        reconnect: { initialDelay: 1 },
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      mockPrisma.user.findMany.mockRejectedValueOnce(
+        Object.assign(new Error('Server has closed the connection'), { code: 'P1017' })
+      );
+      mockPrisma.user.create.mockRejectedValueOnce(
+        Object.assign(new Error('Unique constraint failed'), { code: 'P2002' })
+      );
+
+      const prisma = client.getClient();
+      await prisma.user.findMany();
+      await prisma.user.findMany();
+      await expect(prisma.user.create({ data: {} })).rejects.toThrow('Unique constraint failed');
+      await prisma.user.create({ data: {} });
+
+      const stats = client.getOperationStats();
+      expect(Object.keys(stats).sort()).toEqual(['user.create', 'user.findMany']);
+      expect(stats['user.findMany']).toMatchObject({
+        count: 2,
+        errorCount: 0,
+        outcomes: { success: 2, error: 0 },
+        errorsByClassification: {},
+        retries: 1,
+        latency: { count: 2 },
+      });
+      expect(stats['user.create']).toMatchObject({
+        count: 2,
+        errorCount: 1,
+        outcomes: { success: 1, error: 1 },
+        errorsByClassification: { fatal: 1 },
+        retries: 0,
+      });
+    });
+
+    it('should report latency percentiles over the window', async () => {
+      createClient();
+      mockPrisma.user.findMany.mockImplementationOnce(
+        () => new Promise(resolve => setTimeout(() => resolve([]), 50))
+      );
+
+      await client.getClient().user.findMany();
+      await client.getClient().user.findMany();
+
+      const { latency } = client.getOperationStats()['user.findMany'];
+      expect(latency.count).toBe(2);
+      expect(latency.max).toBeGreaterThanOrEqual(45);
+      expect(latency.p50).toBeLessThan(latency.max);
+      expect(latency.p99).toBe(latency.max);
+    });
+
+    it('should count rejected operations without a classification', async () => {
+      createClient();
+      client.pause({ mode: 'reject' });
+
+      await expect(client.getClient().user.findMany()).rejects.toBeInstanceOf(PausedError);
+
+      expect(client.getOperationStats()['user.findMany']).toMatchObject({
+        count: 1,
+        errorCount: 1,
+        outcomes: { rejected: 1 },
+        errorsByClassification: {},
+      });
+    });
+
+    it('should reset one operation or all of them', async () => {
+      createClient();
+      const prisma = client.getClient();
+      await prisma.user.findMany();
+      await prisma.user.create({ data: {} });
+
+      client.resetOperationStats('user.findMany');
+      expect(Object.keys(client.getOperationStats())).toEqual(['user.create']);
+
+      client.resetOperationStats();
+      expect(client.getOperationStats()).toEqual({});
+    });
+
+    it('should not record anything when disabled', async () => {
+      createClient({
+        operationStats: { enabled: false },
+      });
+
+      await client.getClient().user.findMany();
+
+      expect(client.getOperationStats()).toEqual({});
+    });
+  });
+
+  describe('Startup', () => {
+    const unreachable = () => Object.assign(new Error("Can't reach database server"), { code: 'P1001' });
+
+    it('should resolve create() once connected', async () => {
+      client = await ResilientPrismaClient.create(mockPrisma, { logging });
+
+      expect(client.isConnected()).toBe(true);
+      await expect(client.ready()).resolves.toBeUndefined();
+    });
+
+    it('should reject with StartupError in fail-fast mode', async () => {
+      mockPrisma.$connect.mockRejectedValueOnce(unreachable());
+
+      const error = await ResilientPrismaClient.create(mockPrisma, { logging }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(StartupError);
+      expect(error).toEqual(expect.objectContaining({ operation: 'startup', attempts: 1 }));
+      expect((error as StartupError).cause).toEqual(expect.objectContaining({ code: 'P1001' }));
+      expect(mockPrisma.$disconnect).toHaveBeenCalled();
+    });
+
+    it('should retry until the database is reachable in wait mode', async () => {
+      mockPrisma.$connect.mockRejectedValueOnce(unreachable()).mockRejectedValueOnce(unreachable());
+
+      client = await ResilientPrismaClient.create(mockPrisma, {
+        startup: { mode: 'wait', timeoutMs: 1000 },
+        reconnect: { initialDelay: 1, maxDelay: 5 },
+        logging,
+      });
+
+      expect(mockPrisma.$connect).toHaveBeenCalledTimes(3);
+      expect(client.isConnected()).toBe(true);
+    });
+
+    it('should give up after the startup timeout in wait mode', async () => {
+      mockPrisma.$connect.mockRejectedValue(unreachable());
+
+      const error = await ResilientPrismaClient.create(mockPrisma, {
+        startup: { mode: 'wait', timeoutMs: 50 },
+        reconnect: { initialDelay: 10, maxDelay: 10 },
+        logging,
+      }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(StartupError);
+      expect((error as StartupError).attempts).toBeGreaterThan(1);
+      expect((error as StartupError).elapsedMs).toBeGreaterThanOrEqual(50);
+    });
+
+    it('should start background tasks even if the first connect fails', async () => {
+      mockPrisma.$connect.mockRejectedValueOnce(unreachable());
+      createClient({
+        healthCheck: { enabled: true, intervalMs: 60000 },
+      });
+
+      await expect(client.ready()).rejects.toBeInstanceOf(StartupError);
+      expect(client.refreshTimer).not.toBeNull();
+      expect(client.healthCheckTimer).not.toBeNull();
+    });
+
+    it('should let operations issued before ready() wait for the first connection', async () => {
+      let connect!: () => void;
+      mockPrisma.$connect.mockReturnValueOnce(new Promise<void>(resolve => { connect = resolve; }));
+      createClient();
+
+      const query = client.getClient().user.findMany();
+      connect();
+
+      await expect(query).resolves.toEqual([]);
+      expect(mockPrisma.$connect).toHaveBeenCalledTimes(1);
+      expect(client.getConnectionStats().totalReconnects).toBe(0);
+    });
+  });
+
+  describe('Pause and resume', () => {
+    beforeEach(async () => {
+      createClient({
+        refresh: { enabled: false },
+        shutdown: { gracePeriodMs: 20 },
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+    });
+
+    it('should hold operations until resume()', async () => {
+      client.pause();
+      const query = client.getClient().user.create({ data: {} }).then((result: unknown) => result);
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(mockPrisma.user.create).not.toHaveBeenCalled();
+      expect(client.getConnectionStats().paused).toBe(true);
+
+      client.resume();
+      await expect(query).resolves.toEqual({ id: 1 });
+      expect(client.isPaused()).toBe(false);
+    });
+
+    it('should fail fast in reject mode', async () => {
+      client.pause({ mode: 'reject' });
+
+      await expect(client.getClient().user.create({ data: {} })).rejects.toBeInstanceOf(PausedError);
+      expect(mockPrisma.user.create).not.toHaveBeenCalled();
+    });
+
+    it('should keep reads running when reads are allowed', async () => {
+      client.pause({ mode: 'reject', reads: true });
+
+      await expect(client.getClient().user.findMany()).resolves.toEqual([]);
+      await expect(client.getClient().user.create({ data: {} })).rejects.toBeInstanceOf(PausedError);
+      await expect(client.getClient().$queryRaw`UPDATE post SET views = views + 1`).rejects.toBeInstanceOf(PausedError);
+    });
+
+    it('should reject held operations after maxWaitMs', async () => {
+      client.pause({ maxWaitMs: 20 });
+
+      await expect(client.getClient().user.create({ data: {} })).rejects.toBeInstanceOf(QueueRejectedError);
+    });
+
+    it('should skip the periodic refresh while paused', async () => {
+      const results: any[] = [];
+      client.on('refresh:complete', (result: any) => results.push(result));
+      client.pause();
+
+      await client.refreshConnection();
+
+      expect(mockPrisma.$disconnect).not.toHaveBeenCalled();
+      expect(results).toEqual([expect.objectContaining({ action: 'skipped' })]);
+    });
+  });
+
+  describe('Maintenance windows', () => {
+    const createWindowedClient = (windows: object[]) => {
+      createClient({
+        refresh: { enabled: false },
+        reconnect: { initialDelay: 1, maxConnectionAge: 1 },
+        maintenance: { windows: windows as any, timezone: 'utc' },
+      }, () => mockPrisma);
+    };
+    const hour = (offset: number) => `${String((new Date().getUTCHours() + offset) % 24).padStart(2, '0')}:00`;
+
+    it('should skip refreshes and preventive hard resets outside the windows', async () => {
+      createWindowedClient([{ start: hour(2), end: hour(3) }]);
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      await client.refreshConnection();
+
+      expect(client.getConnectionStats().totalHardResets).toBe(0);
+      expect(mockPrisma.$disconnect).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid windows in the constructor', () => {
+      expect(() => createWindowedClient([{ start: '25:00', end: '04:00' }])).toThrow('Invalid maintenance window time "25:00"');
+    });
+
+    it('should run the preventive hard reset inside a window', async () => {
+      createWindowedClient([{ start: hour(0), end: hour(1) }]);
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      await client.refreshConnection();
+
+      expect(client.getConnectionStats().totalHardResets).toBe(1);
+    });
+  });
+
+  describe('Periodic refresh', () => {
+    const createRefreshingClient = (refresh: object, prismaOrFactory: any = mockPrisma) => {
+      createClient({
+        refresh: { enabled: false, ...refresh },
+        reconnect: { initialDelay: 1 },
+        shutdown: { gracePeriodMs: 20 },
+      }, prismaOrFactory);
+      const results: any[] = [];
+      client.on('refresh:complete', (result: any) => results.push(result));
+      return results;
+    };
+
+    it('should skip the refresh while recent queries succeed', async () => {
+      const results = createRefreshingClient({ mode: 'skip-if-active', activityWindowMs: 60000 });
+      await client.getClient().user.findMany();
+
+      await client.refreshConnection();
+
+      expect(mockPrisma.$disconnect).not.toHaveBeenCalled();
+      expect(results).toEqual([expect.objectContaining({ mode: 'skip-if-active', action: 'skipped' })]);
+    });
+
+    it('should reconnect in skip-if-active mode when there was no recent activity', async () => {
+      const results = createRefreshingClient({ mode: 'skip-if-active', activityWindowMs: 60000 });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      await client.refreshConnection();
+
+      expect(mockPrisma.$disconnect).toHaveBeenCalledTimes(1);
+      expect(results[0]).toEqual(expect.objectContaining({ action: 'reconnect', durationMs: expect.any(Number) }));
+    });
+
+    it('should wait for an idle window in idle mode', async () => {
+      const results = createRefreshingClient({ mode: 'idle', idleTimeoutMs: 1000 });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      let finishQuery!: (value: unknown) => void;
+      mockPrisma.user.findMany.mockReturnValueOnce(new Promise(resolve => { finishQuery = resolve; }));
+      const query = client.getClient().user.findMany().then((result: unknown) => result);
+      await new Promise(resolve => setImmediate(resolve));
+
+      const refresh = client.refreshConnection();
+      await new Promise(resolve => setTimeout(resolve, 60));
+      expect(mockPrisma.$disconnect).not.toHaveBeenCalled();
+
+      finishQuery([]);
+      await query;
+      await refresh;
+
+      expect(mockPrisma.$disconnect).toHaveBeenCalledTimes(1);
+      expect(results[0]).toEqual(expect.objectContaining({ mode: 'idle', action: 'reconnect' }));
+    });
+
+    it('should skip the refresh when no idle window comes', async () => {
+      const results = createRefreshingClient({ mode: 'idle', idleTimeoutMs: 30 });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      mockPrisma.user.findMany.mockReturnValueOnce(new Promise(() => undefined));
+      client.getClient().user.findMany().then(() => undefined);
+      await new Promise(resolve => setImmediate(resolve));
+
+      await client.refreshConnection();
+
+      expect(mockPrisma.$disconnect).not.toHaveBeenCalled();
+      expect(results[0]).toEqual(expect.objectContaining({ mode: 'idle', action: 'skipped' }));
+    });
+
+    it('should swap in a new client in swap mode', async () => {
+      const results = createRefreshingClient({ mode: 'swap' }, () => new PrismaClient());
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      await client.refreshConnection();
+
+      expect(client.getConnectionStats().totalHardResets).toBe(1);
+      expect(results[0]).toEqual(expect.objectContaining({ mode: 'swap', action: 'swap' }));
+    });
+
+    it('should keep the current client serving when the swap cannot connect', async () => {
+      let instances = 0;
+      createRefreshingClient({ enabled: true, mode: 'swap', intervalMs: 20 }, () => {
+        const prisma = instances++ === 0 ? mockPrisma : new PrismaClient();
+        if (prisma !== mockPrisma) {
+          (prisma as any).$connect.mockRejectedValue(new Error("Can't reach database server"));
+        }
+        return prisma;
+      });
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(instances).toBeGreaterThan(1);
+      expect(client.getConnectionStats().totalHardResets).toBe(0);
+      expect(client.isConnected()).toBe(true);
+      await client.getClient().user.findMany();
+      expect(mockPrisma.$disconnect).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Circuit breaker', () => {
+    it('should fail fast once the circuit opens', async () => {
+      mockPrisma.$queryRaw.mockRejectedValue(
+        Object.assign(new Error("Can't reach database server"), { code: 'P1001' })
+      );
+      createClient({
+        reconnect: { maxAttempts: 1, initialDelay: 1 },
+        circuitBreaker: { enabled: true, failureThreshold: 2 },
+      });
+      const openListener = jest.fn();
+      client.on('circuit:open', openListener);
+
+      const prisma = client.getClient();
+      await expect(prisma.$queryRaw`SELECT 1`).rejects.toThrow("Can't reach database server");
+      await expect(prisma.$queryRaw`SELECT 1`).rejects.toThrow("Can't reach database server");
+
+      const calls = mockPrisma.$queryRaw.mock.calls.length;
+      await expect(prisma.$queryRaw`SELECT 1`).rejects.toBeInstanceOf(CircuitOpenError);
+      expect(mockPrisma.$queryRaw.mock.calls.length).toBe(calls);
+      expect(openListener).toHaveBeenCalledTimes(1);
+      expect(client.getConnectionStats().circuitState).toBe('open');
+    });
+  });
+
   describe('Shutdown', () => {
     it('should shutdown cleanly', async () => {
       client = new ResilientPrismaClient(mockPrisma);
@@ -118,5 +1293,117 @@ describe('ResilientPrismaClient', () => {
 
       await expect(client.shutdown()).resolves.not.toThrow();
     });
+
+    it('should reject new operations and shut down only once', async () => {
+      createClient();
+      await new Promise(resolve => setTimeout(resolve, 10));
+      const start = jest.fn();
+      const complete = jest.fn();
+      client.on('shutdown:start', start);
+      client.on('shutdown:complete', complete);
+
+      const first = client.shutdown();
+      await expect(client.getClient().user.findMany()).rejects.toBeInstanceOf(ShutdownError);
+      const result = await first;
+
+      await expect(client.shutdown()).resolves.toBe(result);
+      expect(result).toEqual(expect.objectContaining({ drained: 0, aborted: 0 }));
+      expect(mockPrisma.$disconnect).toHaveBeenCalledTimes(1);
+      expect(start).toHaveBeenCalledTimes(1);
+      expect(complete).toHaveBeenCalledWith(result);
+    });
+
+    it('should wait for in-flight operations before disconnecting', async () => {
+      createClient();
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      let finishQuery!: (value: unknown) => void;
+      mockPrisma.user.findMany.mockReturnValueOnce(new Promise(resolve => { finishQuery = resolve; }));
+      const query = client.getClient().user.findMany().then((result: unknown) => result);
+      await new Promise(resolve => setImmediate(resolve));
+
+      const shutdown = client.shutdown();
+      await new Promise(resolve => setTimeout(resolve, 20));
+      expect(mockPrisma.$disconnect).not.toHaveBeenCalled();
+
+      finishQuery([{ id: 1 }]);
+      await expect(query).resolves.toEqual([{ id: 1 }]);
+      await expect(shutdown).resolves.toEqual(expect.objectContaining({ drained: 1, aborted: 0 }));
+      expect(mockPrisma.$disconnect).toHaveBeenCalledTimes(1);
+    });
+
+    it('should disconnect once the grace period runs out', async () => {
+      createClient({
+        shutdown: { gracePeriodMs: 20 },
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      mockPrisma.user.findMany.mockReturnValueOnce(new Promise(() => undefined));
+      client.getClient().user.findMany().then(() => undefined);
+      await new Promise(resolve => setImmediate(resolve));
+
+      await expect(client.shutdown()).resolves.toEqual(expect.objectContaining({ drained: 0, aborted: 1 }));
+      expect(mockPrisma.$disconnect).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait for queries still running after their caller timed out', async () => {
+      createClient({
+        timeout: { defaultMs: 20 },
+        shutdown: { gracePeriodMs: 100 },
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      mockPrisma.user.findMany.mockReturnValueOnce(new Promise(() => undefined));
+      await expect(client.getClient().user.findMany()).rejects.toBeInstanceOf(QueryTimeoutError);
+
+      const shutdown = client.shutdown();
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(mockPrisma.$disconnect).not.toHaveBeenCalled();
+
+      await expect(shutdown).resolves.toEqual(expect.objectContaining({ drained: 0, aborted: 1 }));
+      expect(mockPrisma.$disconnect).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cancel a reconnect loop in progress', async () => {
+      createClient({
+        reconnect: { initialDelay: 60000, maxDelay: 60000 },
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      mockPrisma.$queryRaw.mockRejectedValueOnce(
+        Object.assign(new Error("Can't reach database server"), { code: 'P1001' })
+      );
+
+      const query = client.getClient().$queryRaw`SELECT 1`;
+      const rejected = expect(query).rejects.toBeInstanceOf(ShutdownError);
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const startedAt = Date.now();
+      await client.shutdown();
+
+      await rejected;
+      expect(Date.now() - startedAt).toBeLessThan(1000);
+      expect(mockPrisma.$connect).toHaveBeenCalledTimes(1);
+    });
+
+    it('should shut down on registered signals and report the result', async () => {
+      createClient();
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const reported = new Promise(resolve => {
+        const unregister = client.registerShutdownHandlers({
+          signals: ['SIGUSR2'],
+          exit: false,
+          onShutdown: (result: unknown) => {
+            unregister();
+            resolve(result);
+          },
+        });
+      });
+      process.emit('SIGUSR2', 'SIGUSR2');
+
+      await expect(reported).resolves.toEqual(expect.objectContaining({ drained: 0, aborted: 0 }));
+      expect(process.listenerCount('SIGUSR2')).toBe(0);
+      expect(mockPrisma.$disconnect).toHaveBeenCalledTimes(1);
+    });
   });
 });
@@ -0,0 +1,48 @@
+/**
+ * Unit tests for RetryBudget
+ */
+
+import { RetryBudget } from '../src/RetryBudget';
+
+describe('RetryBudget', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should start with minRetriesPerSecond tokens', () => {
+    const budget = new RetryBudget({ ratio: 0.2, minRetriesPerSecond: 2, maxTokens: 100 });
+
+    expect(budget.tryAcquire()).toBe(true);
+    expect(budget.tryAcquire()).toBe(true);
+    expect(budget.tryAcquire()).toBe(false);
+    expect(budget.getRejections()).toBe(1);
+  });
+
+  it('should allow retries as a fraction of requests', () => {
+    const budget = new RetryBudget({ ratio: 0.25, minRetriesPerSecond: 0, maxTokens: 100 });
+    for (let i = 0; i < 8; i++) {
+      budget.recordRequest();
+    }
+
+    expect(budget.tryAcquire()).toBe(true);
+    expect(budget.tryAcquire()).toBe(true);
+    expect(budget.tryAcquire()).toBe(false);
+  });
+
+  it('should refill over time up to maxTokens', () => {
+    const budget = new RetryBudget({ ratio: 0.2, minRetriesPerSecond: 1, maxTokens: 3 });
+    expect(budget.tryAcquire()).toBe(true);
+    expect(budget.tryAcquire()).toBe(false);
+
+    jest.advanceTimersByTime(10000);
+
+    expect(budget.tryAcquire()).toBe(true);
+    expect(budget.tryAcquire()).toBe(true);
+    expect(budget.tryAcquire()).toBe(true);
+    expect(budget.tryAcquire()).toBe(false);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for WaitQueue
+ */
+
+import { WaitQueue } from '../src/WaitQueue';
+import { QueueRejectedError } from '../src';
+
+const options = {
+  maxSize: 3,
+  maxWaitMs: 1000,
+  order: 'fifo' as const,
+};
+
+describe('WaitQueue', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const track = (queue: WaitQueue, released: string[], name: string, priority?: number) =>
+    queue.enqueue(name, priority).then(() => {
+      released.push(name);
+    });
+
+  it('should release waiting operations in FIFO order', async () => {
+    const queue = new WaitQueue(options);
+    const released: string[] = [];
+    const waits = [track(queue, released, 'a', 1), track(queue, released, 'b', 5), track(queue, released, 'c')];
+
+    expect(queue.getDepth()).toBe(3);
+    queue.release();
+    await Promise.all(waits);
+
+    expect(released).toEqual(['a', 'b', 'c']);
+    expect(queue.getDepth()).toBe(0);
+  });
+
+  it('should release by descending priority, keeping arrival order within a priority', async () => {
+    const queue = new WaitQueue({ ...options, maxSize: 10, order: 'priority' });
+    const released: string[] = [];
+    const waits = [
+      track(queue, released, 'low'),
+      track(queue, released, 'high-1', 5),
+      track(queue, released, 'mid', 1),
+      track(queue, released, 'high-2', 5),
+    ];
+
+    queue.release();
+    await Promise.all(waits);
+
+    expect(released).toEqual(['high-1', 'high-2', 'mid', 'low']);
+  });
+
+  it('should reject overflow immediately', async () => {
+    const queue = new WaitQueue(options);
+    for (let i = 0; i < 3; i++) {
+      queue.enqueue(`op-${i}`);
+    }
+
+    const overflow = queue.enqueue('user.findMany');
+
+    await expect(overflow).rejects.toBeInstanceOf(QueueRejectedError);
+    await expect(overflow).rejects.toMatchObject({ operation: 'user.findMany', reason: 'full' });
+    expect(queue.getStats()).toEqual(expect.objectContaining({ depth: 3, rejections: 1 }));
+    queue.release();
+  });
+
+  it('should reject operations that wait longer than maxWaitMs', async () => {
+    const queue = new WaitQueue(options);
+    const waiting = queue.enqueue('user.create');
+
+    jest.advanceTimersByTime(1000);
+
+    await expect(waiting).rejects.toMatchObject({ reason: 'timeout', waitedMs: 1000 });
+    expect(queue.getDepth()).toBe(0);
+    expect(queue.getStats().rejections).toBe(1);
+  });
+
+  it('should fail every waiting operation with the recovery error', async () => {
+    const queue = new WaitQueue(options);
+    const waits = [queue.enqueue('a'), queue.enqueue('b')];
+    const error = new Error('Failed to reconnect');
+
+    queue.rejectAll(error);
+
+    for (const waiting of waits) {
+      await expect(waiting).rejects.toBe(error);
+    }
+    expect(queue.getStats().rejections).toBe(0);
+  });
+
+  it('should report wait times of released operations', async () => {
+    const queue = new WaitQueue(options);
+    const first = queue.enqueue('a');
+    jest.advanceTimersByTime(200);
+    const second = queue.enqueue('b');
+    jest.advanceTimersByTime(100);
+
+    queue.release();
+    await Promise.all([first, second]);
+
+    expect(queue.getStats()).toEqual({
+      depth: 0,
+      totalQueued: 2,
+      rejections: 0,
+      averageWaitMs: 200,
+      maxWaitMs: 300,
+    });
+  });
+});
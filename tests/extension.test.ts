@@ -0,0 +1,99 @@
+/**
+ * Unit tests for the Prisma Client extension
+ */
+
+import { resilient, ResilientPrismaClient } from '../src';
+import { silentLogger } from './helpers';
+
+/**
+ * Minimal stand-in for PrismaClient.$extends with a query extension
+ */
+function createFakeClient(findMany: jest.Mock, transaction: jest.Mock = jest.fn()) {
+  const base: any = {
+    $connect: jest.fn().mockResolvedValue(undefined),
+    $disconnect: jest.fn().mockResolvedValue(undefined),
+    $transaction: transaction,
+    $extends(extension: any) {
+      if (typeof extension === 'function') {
+        return extension(base);
+      }
+      const hook = extension.query.$allOperations;
+      const run = (model: string | undefined, operation: string, args: any, transaction?: object) =>
+        hook({ model, operation, args, query: (nextArgs: any) => findMany(nextArgs), __internalParams: { transaction } });
+      return {
+        ...extension.client,
+        user: { findMany: (args: any) => run('User', 'findMany', args) },
+        $runInTransaction: (args: any) => run('User', 'findMany', args, { kind: 'itx' }),
+      };
+    },
+  };
+  return base;
+}
+
+describe('resilient extension', () => {
+  let prisma: any;
+
+  afterEach(async () => {
+    await prisma?.$resilient.shutdown();
+  });
+
+  it('should expose the shared ResilientPrismaClient', () => {
+    prisma = createFakeClient(jest.fn()).$extends(resilient({ logging: { level: 'error', logger: silentLogger } }));
+    expect(prisma.$resilient).toBeInstanceOf(ResilientPrismaClient);
+  });
+
+  it('should reconnect and retry failed queries', async () => {
+    const findMany = jest.fn()
+      .mockRejectedValueOnce(Object.assign(new Error('Server has closed the connection'), { code: 'P1017' }))
+      .mockResolvedValueOnce([{ id: 1 }]);
+    prisma = createFakeClient(findMany).$extends(
+      resilient({ reconnect: { initialDelay: 1 }, logging: { level: 'error', logger: silentLogger } })
+    );
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    await expect(prisma.user.findMany({ take: 1 })).resolves.toEqual([{ id: 1 }]);
+    expect(findMany).toHaveBeenCalledTimes(2);
+    expect(findMany).toHaveBeenLastCalledWith({ take: 1 });
+    expect(prisma.$resilient.getConnectionStats().totalReconnects).toBe(1);
+  });
+
+  it('should pass errors and operation names to onError', async () => {
+    const onError = jest.fn();
+    const findMany = jest.fn().mockRejectedValue(Object.assign(new Error('Unique constraint'), { code: 'P2002' }));
+    prisma = createFakeClient(findMany).$extends(
+      resilient({ onError, logging: { level: 'error', logger: silentLogger } })
+    );
+
+    await expect(prisma.user.findMany()).rejects.toThrow('Unique constraint');
+    expect(onError).toHaveBeenCalledWith(
+      expect.any(Error),
+      expect.objectContaining({ operation: 'user.findMany', classification: 'fatal' })
+    );
+  });
+
+  it('should not wrap queries inside transactions', async () => {
+    const findMany = jest.fn().mockRejectedValue(
+      Object.assign(new Error('Server has closed the connection'), { code: 'P1017' })
+    );
+    prisma = createFakeClient(findMany).$extends(resilient({ logging: { level: 'error', logger: silentLogger } }));
+
+    await expect(prisma.$runInTransaction({})).rejects.toThrow('Server has closed the connection');
+    expect(findMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry interactive transactions as a unit', async () => {
+    const transaction = jest.fn()
+      .mockRejectedValueOnce(Object.assign(new Error('Write conflict'), { code: 'P2034' }))
+      .mockImplementation(async (callback: any) => callback({ isTransactionClient: true }));
+    prisma = createFakeClient(jest.fn(), transaction).$extends(
+      resilient({ transaction: { initialDelay: 1 }, logging: { level: 'error', logger: silentLogger } })
+    );
+    const callback = jest.fn().mockResolvedValue('done');
+
+    await expect(prisma.$transaction(callback, { timeout: 1000 })).resolves.toBe('done');
+    expect(transaction).toHaveBeenCalledTimes(2);
+    expect(transaction).toHaveBeenLastCalledWith(callback, { timeout: 1000 });
+    expect(callback).toHaveBeenCalledWith({ isTransactionClient: true });
+    expect(prisma.$resilient.getConnectionStats().transactionRetries).toBe(1);
+  });
+});
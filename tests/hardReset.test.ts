@@ -0,0 +1,257 @@
+/**
+ * Tests for the stable client handle across hard resets
+ */
+
+import { ResilientPrismaClient, HardResetError, ShutdownError } from '../src';
+import { silentLogger } from './helpers';
+
+/**
+ * Create a mock PrismaClient instance; each instance records its own calls
+ */
+function createMockPrisma(id: number): any {
+  return {
+    id,
+    $connect: jest.fn().mockResolvedValue(undefined),
+    $disconnect: jest.fn().mockResolvedValue(undefined),
+    $queryRaw: jest.fn().mockResolvedValue([{ instance: id }]),
+    user: {
+      findMany: jest.fn().mockResolvedValue([{ instance: id }]),
+    },
+  };
+}
+
+describe('Stable client handle', () => {
+  let client: any;
+  let instances: any[];
+  let factory: jest.Mock;
+
+  beforeEach(() => {
+    instances = [];
+    factory = jest.fn(() => {
+      const instance = createMockPrisma(instances.length + 1);
+      instances.push(instance);
+      return instance;
+    });
+  });
+
+  afterEach(async () => {
+    await client?.shutdown();
+  });
+
+  it('should return the same handle on every call', () => {
+    client = new ResilientPrismaClient(factory, { logging: { level: 'error', logger: silentLogger } });
+    expect(client.getClient()).toBe(client.getClient());
+  });
+
+  it('should keep working across a preventive hard reset', async () => {
+    client = new ResilientPrismaClient(factory, {
+      reconnect: { maxConnectionAge: 10 },
+      refresh: { intervalMs: 30 },
+      logging: { level: 'error', logger: silentLogger },
+    });
+    const prisma = client.getClient();
+    await expect(prisma.user.findMany()).resolves.toEqual([{ instance: 1 }]);
+
+    const hardReset = new Promise(resolve => client.once('hard-reset', resolve));
+    await hardReset;
+
+    expect(instances).toHaveLength(2);
+    expect(instances[0].$disconnect).toHaveBeenCalled();
+    await expect(prisma.user.findMany()).resolves.toEqual([{ instance: 2 }]);
+    await expect(prisma.$queryRaw`SELECT 1`).resolves.toEqual([{ instance: 2 }]);
+    expect(instances[1].user.findMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry on the new client after an error-triggered hard reset', async () => {
+    client = new ResilientPrismaClient(factory, {
+      reconnect: { maxAttempts: 1, hardResetOnFinalAttempt: true },
+      logging: { level: 'error', logger: silentLogger },
+    });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    const prisma = client.getClient();
+
+    instances[0].user.findMany.mockRejectedValue(
+      Object.assign(new Error('Engine is not yet connected.'), { name: 'PrismaClientUnknownRequestError' })
+    );
+
+    await expect(prisma.user.findMany()).resolves.toEqual([{ instance: 2 }]);
+    expect(client.getConnectionStats().totalHardResets).toBe(1);
+
+    // The handle obtained before the reset keeps using the new instance
+    await expect(prisma.user.findMany()).resolves.toEqual([{ instance: 2 }]);
+    expect(instances[0].user.findMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('should hard reset after consecutive errors and keep serving queries', async () => {
+    client = new ResilientPrismaClient(factory, {
+      reconnect: { maxConsecutiveErrors: 2 },
+      logging: { level: 'error', logger: silentLogger },
+    });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    const prisma = client.getClient();
+
+    instances[0].user.findMany.mockRejectedValue(new Error('Invalid `prisma.user.findMany()` invocation'));
+
+    await expect(prisma.user.findMany()).rejects.toThrow('Invalid');
+    await expect(prisma.user.findMany()).resolves.toEqual([{ instance: 2 }]);
+    await expect(prisma.user.findMany()).resolves.toEqual([{ instance: 2 }]);
+    expect(client.getConnectionStats().totalHardResets).toBe(1);
+  });
+});
+
+describe('Blue-green hard reset', () => {
+  let client: any;
+  let instances: any[];
+  let factory: jest.Mock;
+
+  beforeEach(() => {
+    instances = [];
+    factory = jest.fn(() => {
+      const instance = createMockPrisma(instances.length + 1);
+      instances.push(instance);
+      return instance;
+    });
+  });
+
+  afterEach(async () => {
+    await client?.shutdown();
+  });
+
+  it('should drain in-flight operations before disconnecting the old client', async () => {
+    client = new ResilientPrismaClient(factory, { logging: { level: 'error', logger: silentLogger } });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    const prisma = client.getClient();
+
+    let finishSlowQuery!: (value: unknown) => void;
+    instances[0].user.findMany.mockReturnValueOnce(new Promise(resolve => { finishSlowQuery = resolve; }));
+    const slowQuery = prisma.user.findMany().then((result: unknown) => result);
+    await new Promise(resolve => setImmediate(resolve));
+
+    const drained = jest.fn();
+    client.on('hard-reset:drained', drained);
+    await client.recover('hard-reset');
+
+    // New operations use the new client while the old one is still serving
+    await expect(prisma.user.findMany()).resolves.toEqual([{ instance: 2 }]);
+    expect(instances[0].$disconnect).not.toHaveBeenCalled();
+
+    finishSlowQuery([{ instance: 1 }]);
+    await expect(slowQuery).resolves.toEqual([{ instance: 1 }]);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(instances[0].$disconnect).toHaveBeenCalledTimes(1);
+    expect(drained).toHaveBeenCalledWith(0);
+  });
+
+  it('should disconnect the old client after the drain timeout', async () => {
+    client = new ResilientPrismaClient(factory, {
+      hardReset: { drainTimeoutMs: 20 },
+      shutdown: { gracePeriodMs: 20 },
+      logging: { level: 'error', logger: silentLogger },
+    });
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    instances[0].user.findMany.mockReturnValueOnce(new Promise(() => undefined));
+    client.getClient().user.findMany().then(() => undefined, () => undefined);
+    await new Promise(resolve => setImmediate(resolve));
+
+    const drained = new Promise(resolve => client.once('hard-reset:drained', resolve));
+    await client.recover('hard-reset');
+
+    await expect(drained).resolves.toBe(1);
+    expect(instances[0].$disconnect).toHaveBeenCalledTimes(1);
+  });
+
+  it('should warm up the new client before swapping it in', async () => {
+    const warmup = jest.fn().mockResolvedValue(undefined);
+    client = new ResilientPrismaClient(factory, {
+      hardReset: { warmup },
+      logging: { level: 'error', logger: silentLogger },
+    });
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    await client.recover('hard-reset');
+
+    expect(warmup).toHaveBeenCalledWith(instances[1]);
+    expect(instances[1].$connect.mock.invocationCallOrder[0]).toBeLessThan(warmup.mock.invocationCallOrder[0]);
+  });
+
+  it('should keep the old client when the new one fails to warm up', async () => {
+    client = new ResilientPrismaClient(factory, {
+      hardReset: { warmup: jest.fn().mockRejectedValue(new Error('warmup failed')) },
+      logging: { level: 'error', logger: silentLogger },
+    });
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    const reset = client.recover('hard-reset');
+    await expect(reset).rejects.toBeInstanceOf(HardResetError);
+    await expect(reset).rejects.toMatchObject({
+      reason: 'connect-failed',
+      operation: 'hard-reset',
+      attempts: 1,
+      cause: expect.objectContaining({ message: 'warmup failed' }),
+    });
+
+    expect(instances[1].$disconnect).toHaveBeenCalled();
+    expect(instances[0].$disconnect).not.toHaveBeenCalled();
+    await expect(client.getClient().user.findMany()).resolves.toEqual([{ instance: 1 }]);
+  });
+
+  it('should finish shutdown within the grace period while a hard reset is stuck connecting', async () => {
+    client = new ResilientPrismaClient(factory, {
+      shutdown: { gracePeriodMs: 50 },
+      logging: { level: 'error', logger: silentLogger },
+    });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    factory.mockImplementationOnce(() => {
+      const instance = createMockPrisma(instances.length + 1);
+      instance.$connect.mockReturnValue(new Promise(() => undefined));
+      instances.push(instance);
+      return instance;
+    });
+    client.recover('hard-reset').catch(() => undefined);
+    await new Promise(resolve => setImmediate(resolve));
+
+    const startedAt = Date.now();
+    await client.shutdown();
+
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+    expect(instances[0].$disconnect).toHaveBeenCalledTimes(1);
+  });
+
+  it('should discard a new client that connects after shutdown started', async () => {
+    client = new ResilientPrismaClient(factory, {
+      shutdown: { gracePeriodMs: 20 },
+      logging: { level: 'error', logger: silentLogger },
+    });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    let finishConnect!: (value: undefined) => void;
+    factory.mockImplementationOnce(() => {
+      const instance = createMockPrisma(instances.length + 1);
+      instance.$connect.mockReturnValue(new Promise(resolve => { finishConnect = resolve; }));
+      instances.push(instance);
+      return instance;
+    });
+    const reset = client.recover('hard-reset');
+    const rejected = expect(reset).rejects.toBeInstanceOf(ShutdownError);
+    await new Promise(resolve => setImmediate(resolve));
+
+    await client.shutdown();
+    finishConnect(undefined);
+    await rejected;
+
+    expect(instances[1].$disconnect).toHaveBeenCalledTimes(1);
+    expect(client.getConnectionStats().totalHardResets).toBe(0);
+  });
+
+  it('should throw HardResetError without a factory', async () => {
+    client = new ResilientPrismaClient(createMockPrisma(0), {
+      logging: { level: 'error', logger: silentLogger },
+    });
+
+    await expect(client.recover('hard-reset')).rejects.toMatchObject({
+      name: 'HardResetError',
+      reason: 'no-factory',
+    });
+  });
+});
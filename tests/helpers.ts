@@ -0,0 +1,8 @@
+/**
+ * Shared test helpers
+ */
+
+/**
+ * Logger that swallows everything, for tests that trigger logged failures
+ */
+export const silentLogger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
@@ -0,0 +1,130 @@
+/**
+ * Unit tests for the HTTP probe handlers
+ */
+
+import { ResilientPrismaClient, createProbes, createHttpHandlers, createFastifyHandlers } from '../src';
+import { silentLogger } from './helpers';
+
+describe('HTTP probes', () => {
+  let prisma: any;
+  let client: ResilientPrismaClient;
+
+  beforeEach(async () => {
+    prisma = {
+      $connect: jest.fn().mockResolvedValue(undefined),
+      $disconnect: jest.fn().mockResolvedValue(undefined),
+      $queryRaw: jest.fn().mockResolvedValue([{ result: 1 }]),
+    };
+    client = new ResilientPrismaClient(prisma, {
+      refresh: { enabled: false },
+      healthCheck: { enabled: false },
+      logging: { level: 'error', logger: silentLogger },
+    });
+    await client.ready();
+  });
+
+  afterEach(async () => {
+    await client.shutdown();
+  });
+
+  it('should report liveness without querying the database', () => {
+    const response = createProbes(client).liveness();
+
+    expect(response).toEqual({
+      statusCode: 200,
+      body: { status: 'ok', stats: expect.objectContaining({ isConnected: true }) },
+    });
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+  });
+
+  it('should be ready when connected and healthy', async () => {
+    const response = await createProbes(client).readiness();
+
+    expect(response.statusCode).toBe(200);
+    expect(response.body).toEqual(expect.objectContaining({
+      status: 'ready',
+      health: expect.objectContaining({ status: 'healthy' }),
+    }));
+  });
+
+  it('should fail readiness after consecutive failed checks without moving the health state', async () => {
+    prisma.$queryRaw.mockRejectedValue(new Error('boom'));
+    const probes = createProbes(client);
+
+    const responses = [await probes.readiness(), await probes.readiness(), await probes.readiness()];
+
+    expect(responses.map((response) => response.statusCode)).toEqual([200, 200, 503]);
+    expect(responses[2].body).toEqual(expect.objectContaining({ status: 'not-ready', reason: 'unhealthy' }));
+    expect(responses[2].body.health).toEqual(expect.objectContaining({ status: 'unhealthy', state: 'healthy' }));
+    expect(client.getConnectionStats().healthState).toBe('healthy');
+
+    prisma.$queryRaw.mockResolvedValue([{ result: 1 }]);
+    expect((await probes.readiness()).statusCode).toBe(200);
+  });
+
+  it('should not be ready once the health state is unhealthy', async () => {
+    prisma.$queryRaw.mockRejectedValue(new Error('boom'));
+    for (let i = 0; i < 3; i++) {
+      await client.healthCheck();
+    }
+
+    const response = await createProbes(client).readiness();
+
+    expect(response.statusCode).toBe(503);
+    expect(response.body).toEqual(expect.objectContaining({ status: 'not-ready', reason: 'unhealthy' }));
+  });
+
+  it('should not be ready while paused, without running a health check', async () => {
+    client.pause();
+
+    const response = await createProbes(client).readiness();
+    client.resume();
+
+    expect(response.statusCode).toBe(503);
+    expect(response.body.reason).toBe('paused');
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+  });
+
+  it('should not be ready while reconnecting', async () => {
+    client.reconnect().catch(() => undefined);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    const response = await createProbes(client).readiness();
+
+    expect(response.statusCode).toBe(503);
+    expect(response.body.reason).toBe('reconnecting');
+  });
+
+  it('should fail both probes once shutting down', async () => {
+    await client.shutdown();
+    const probes = createProbes(client, { statusCodes: { unavailable: 500 }, includeStats: false });
+
+    expect(probes.liveness()).toEqual({ statusCode: 500, body: { status: 'shutting-down' } });
+    await expect(probes.readiness()).resolves.toEqual({
+      statusCode: 500,
+      body: { status: 'not-ready', reason: 'shutting-down' },
+    });
+  });
+
+  it('should write JSON responses for Node http and Express', async () => {
+    const res: any = { statusCode: 0, setHeader: jest.fn(), end: jest.fn() };
+
+    await createHttpHandlers(client, { healthCheck: false }).readiness({} as any, res);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'application/json; charset=utf-8');
+    expect(JSON.parse(res.end.mock.calls[0][0])).toEqual(expect.objectContaining({ status: 'ready' }));
+  });
+
+  it('should send responses through the Fastify reply', async () => {
+    const reply: any = {};
+    reply.code = jest.fn(() => reply);
+    reply.header = jest.fn(() => reply);
+    reply.send = jest.fn(() => reply);
+
+    await createFastifyHandlers(client).stats({}, reply);
+
+    expect(reply.code).toHaveBeenCalledWith(200);
+    expect(reply.send).toHaveBeenCalledWith(expect.objectContaining({ isConnected: true, paused: false }));
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Unit tests for the Prometheus metrics module
+ */
+
+import { ResilientPrismaClient, createMetrics, createMetricsRegistry, createPromClientRegistry } from '../src';
+import { silentLogger } from './helpers';
+
+describe('createMetricsRegistry', () => {
+  it('should render counters and gauges in Prometheus text format', async () => {
+    const registry = createMetricsRegistry();
+    const counter = registry.counter('queries_total', 'Queries', ['operation']);
+    const gauge = registry.gauge('connected', 'Connected', []);
+
+    counter.inc({ operation: 'user.findMany' });
+    counter.inc({ operation: 'user.findMany' }, 2);
+    counter.inc({ operation: 'say "hi"\n' });
+    gauge.set({}, 1);
+
+    expect(await registry.metrics()).toBe(
+      '# HELP queries_total Queries\n' +
+      '# TYPE queries_total counter\n' +
+      'queries_total{operation="user.findMany"} 3\n' +
+      'queries_total{operation="say \\"hi\\"\\n"} 1\n' +
+      '\n' +
+      '# HELP connected Connected\n' +
+      '# TYPE connected gauge\n' +
+      'connected 1\n'
+    );
+  });
+
+  it('should render cumulative histogram buckets', async () => {
+    const registry = createMetricsRegistry();
+    const histogram = registry.histogram('duration_seconds', 'Duration', ['outcome'], [0.5, 0.1]);
+
+    histogram.observe({ outcome: 'success' }, 0.05);
+    histogram.observe({ outcome: 'success' }, 0.3);
+    histogram.observe({ outcome: 'success' }, 2);
+
+    const text = await registry.metrics();
+    expect(text).toContain('duration_seconds_bucket{outcome="success",le="0.1"} 1\n');
+    expect(text).toContain('duration_seconds_bucket{outcome="success",le="0.5"} 2\n');
+    expect(text).toContain('duration_seconds_bucket{outcome="success",le="+Inf"} 3\n');
+    expect(text).toContain('duration_seconds_sum{outcome="success"} 2.35\n');
+    expect(text).toContain('duration_seconds_count{outcome="success"} 3\n');
+  });
+});
+
+describe('createMetrics', () => {
+  let prisma: any;
+  let client: ResilientPrismaClient;
+
+  beforeEach(async () => {
+    prisma = {
+      $connect: jest.fn().mockResolvedValue(undefined),
+      $disconnect: jest.fn().mockResolvedValue(undefined),
+    };
+    client = new ResilientPrismaClient(prisma, {
+      refresh: { enabled: false },
+      healthCheck: { enabled: false },
+      reconnect: { initialDelay: 1 },
+      logging: { level: 'error', logger: silentLogger },
+    });
+    await client.ready();
+  });
+
+  afterEach(async () => {
+    await client.shutdown();
+  });
+
+  it('should label operations by name and outcome', async () => {
+    const metrics = createMetrics(client);
+
+    await client.execute(async () => [], 'user.findMany');
+    await client
+      .execute(
+        jest.fn()
+          .mockRejectedValueOnce(Object.assign(new Error('Server has closed the connection'), { code: 'P1017' }))
+          .mockRejectedValueOnce(Object.assign(new Error('Unique constraint failed'), { code: 'P2002' })),
+        'user.findMany'
+      )
+      .catch(() => undefined);
+
+    const text = await metrics.metrics();
+    expect(text).toContain('prisma_resilient_operations_total{operation="user.findMany",outcome="success"} 1\n');
+    expect(text).toContain('prisma_resilient_operations_total{operation="user.findMany",outcome="error"} 1\n');
+    expect(text).toContain('prisma_resilient_operation_errors_total{operation="user.findMany",classification="fatal"} 1\n');
+    expect(text).toContain('prisma_resilient_operation_retries_total{operation="user.findMany"} 1\n');
+    expect(text).toContain('prisma_resilient_reconnects_total 1\n');
+    expect(text).toContain('prisma_resilient_operation_duration_seconds_count{operation="user.findMany",outcome="success"} 1\n');
+    expect(text).toContain('prisma_resilient_connected 1\n');
+    expect(text).toContain('prisma_resilient_circuit_state{state="closed"} 1\n');
+    metrics.stop();
+  });
+
+  it('should give every call its own registry by default', async () => {
+    const primary = createMetrics(client);
+    const replica = createMetrics(client);
+
+    expect(replica.registry).not.toBe(primary.registry);
+    await client.execute(async () => [], 'user.findMany');
+    expect(await replica.metrics()).toContain('prisma_resilient_operations_total{operation="user.findMany",outcome="success"} 1\n');
+    primary.stop();
+    replica.stop();
+  });
+
+  it('should stop recording once stopped', async () => {
+    const metrics = createMetrics(client, { prefix: 'app_db_' });
+    metrics.stop();
+
+    await client.execute(async () => [], 'user.findMany');
+
+    expect(await metrics.metrics()).not.toContain('app_db_operations_total{');
+  });
+
+  it('should serve metrics over HTTP', async () => {
+    const metrics = createMetrics(client);
+    const res: any = { statusCode: 0, setHeader: jest.fn(), end: jest.fn() };
+
+    await metrics.handler({} as any, res);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+    expect(res.end.mock.calls[0][0]).toContain('# TYPE prisma_resilient_operations_total counter');
+    metrics.stop();
+  });
+
+  it('should register metrics through the prom-client adapter', async () => {
+    const inc = jest.fn();
+    const register = { contentType: 'text/plain; version=0.0.4', metrics: jest.fn().mockResolvedValue('# prom-client') };
+    const promClient = {
+      register,
+      Counter: jest.fn(() => ({ inc })),
+      Gauge: jest.fn(() => ({ set: jest.fn() })),
+      Histogram: jest.fn(() => ({ observe: jest.fn() })),
+    };
+    const metrics = createMetrics(client, { registry: createPromClientRegistry(promClient) });
+
+    await client.execute(async () => [], 'user.findMany');
+
+    expect(promClient.Counter).toHaveBeenCalledWith(expect.objectContaining({
+      name: 'prisma_resilient_operations_total',
+      labelNames: ['operation', 'outcome'],
+      registers: [register],
+    }));
+    expect(inc).toHaveBeenCalledWith({ operation: 'user.findMany', outcome: 'success' }, 1);
+    await expect(metrics.metrics()).resolves.toBe('# prom-client');
+    metrics.stop();
+  });
+});
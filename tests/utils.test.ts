@@ -7,7 +7,15 @@ import {
   isRetryableError,
   getErrorMessage,
   calculateBackoff,
+  createBackoffPolicy,
   getHeapUsagePercent,
+  classifyError,
+  createErrorClassifier,
+  isAmbiguousFailure,
+  isRetrySafe,
+  isWithinMaintenanceWindow,
+  parseTimeOfDay,
+  parseMaintenanceWindows,
 } from '../src/utils';
 
 describe('Error utilities', () => {
@@ -16,7 +24,10 @@ describe('Error utilities', () => {
       expect(isConnectionError({ code: 'P1001', message: 'Error' })).toBe(true);
       expect(isConnectionError({ code: 'P1008', message: 'Error' })).toBe(true);
       expect(isConnectionError({ code: 'P1017', message: 'Error' })).toBe(true);
-      expect(isConnectionError({ code: 'P2024', message: 'Error' })).toBe(true);
+    });
+
+    it('should not treat pool exhaustion as a connection error', () => {
+      expect(isConnectionError({ code: 'P2024', message: 'Error' })).toBe(false);
     });
 
     it('should detect connection keywords in error messages', () => {
@@ -34,12 +45,67 @@ describe('Error utilities', () => {
     });
   });
 
+  describe('classifyError', () => {
+    const prismaError = (name: string, message: string, extra: Record<string, unknown> = {}) =>
+      Object.assign(new Error(message), { name, ...extra });
+
+    it('should not match application errors that mention connections', () => {
+      expect(isConnectionError({ code: 'P2002', message: 'Unique constraint failed on connection_id' })).toBe(false);
+      expect(classifyError(prismaError('PrismaClientKnownRequestError', 'Unique constraint failed on the fields: (`connection_id`)', { code: 'P2002' }))).toBe('fatal');
+    });
+
+    it('should classify Prisma error codes', () => {
+      expect(classifyError({ code: 'P1001', message: "Can't reach database server" })).toBe('retryable-connection');
+      expect(classifyError({ code: 'P2024', message: 'Timed out fetching a new connection' })).toBe('pool-exhausted');
+      expect(classifyError({ code: 'P2034', message: 'Transaction failed due to a write conflict' })).toBe('retryable-transient');
+      expect(classifyError({ code: 'P1000', message: 'Authentication failed' })).toBe('auth');
+    });
+
+    it('should understand Prisma error classes', () => {
+      expect(classifyError(prismaError('PrismaClientRustPanicError', 'PANIC: called `Option::unwrap()`'))).toBe('retryable-connection');
+      expect(classifyError(prismaError('PrismaClientInitializationError', 'Authentication failed', { errorCode: 'P1000' }))).toBe('auth');
+      expect(classifyError(prismaError('PrismaClientUnknownRequestError', 'Lost connection to MySQL server during query'))).toBe('retryable-connection');
+    });
+
+    it('should detect provider-specific errors', () => {
+      expect(classifyError({ message: 'MySQL server has gone away' })).toBe('retryable-connection');
+      expect(classifyError({
+        code: 'P2010',
+        message: 'Raw query failed. Code: `57P01`. Message: `terminating connection due to administrator command`',
+      })).toBe('retryable-connection');
+      expect(classifyError({ code: 'P2010', meta: { code: '40P01' }, message: 'Raw query failed' })).toBe('retryable-transient');
+      expect(classifyError({ message: 'Transaction (Process ID 52) was deadlocked and has been chosen as the deadlock victim' })).toBe('retryable-transient');
+      expect(classifyError({ message: 'Command failed: Error code 189 (PrimarySteppedDown)' })).toBe('retryable-connection');
+    });
+
+    it('should apply only the configured provider rule pack', () => {
+      const classify = createErrorClassifier({ provider: 'postgresql' });
+      expect(classify({ message: 'MySQL server has gone away' })).toBe('fatal');
+      expect(classify({ code: 'P2010', meta: { code: '57P01' }, message: 'Raw query failed' })).toBe('retryable-connection');
+    });
+
+    it('should evaluate custom rules first', () => {
+      const classify = createErrorClassifier({
+        rules: [
+          { name: 'maintenance', classification: 'retryable-connection', messages: [/maintenance mode/i] },
+          { name: 'not-auth', classification: 'fatal', codes: ['P1000'] },
+        ],
+      });
+      expect(classify({ message: 'Database is in maintenance mode' })).toBe('retryable-connection');
+      expect(classify({ code: 'P1000', message: 'Authentication failed' })).toBe('fatal');
+    });
+  });
+
   describe('isRetryableError', () => {
     it('should consider connection errors as retryable', () => {
       expect(isRetryableError({ code: 'P1001', message: 'Error' })).toBe(true);
       expect(isRetryableError({ message: 'Connection lost' })).toBe(true);
     });
 
+    it('should consider pool exhaustion as retryable', () => {
+      expect(isRetryableError({ code: 'P2024', message: 'Error' })).toBe(true);
+    });
+
     it('should not consider non-connection errors as retryable', () => {
       expect(isRetryableError({ message: 'Invalid data' })).toBe(false);
     });
@@ -66,6 +132,44 @@ describe('Error utilities', () => {
   });
 });
 
+describe('Retry policy utilities', () => {
+  describe('isAmbiguousFailure', () => {
+    it('should treat dropped connections as ambiguous', () => {
+      expect(isAmbiguousFailure({ code: 'P1017' }, 'retryable-connection')).toBe(true);
+    });
+
+    it('should not treat unsent requests or non-connection errors as ambiguous', () => {
+      expect(isAmbiguousFailure({ code: 'P1001' }, 'retryable-connection')).toBe(false);
+      expect(isAmbiguousFailure({ code: 'P2024' }, 'pool-exhausted')).toBe(false);
+      expect(isAmbiguousFailure({ code: 'P2002' }, 'fatal')).toBe(false);
+    });
+  });
+
+  describe('isRetrySafe', () => {
+    it('should allow reads and reject writes and raw queries by default', () => {
+      expect(isRetrySafe('user.findMany', {})).toBe(true);
+      expect(isRetrySafe('$queryRaw', {})).toBe(false);
+      expect(isRetrySafe('user.create', {})).toBe(false);
+      expect(isRetrySafe('user.upsert', {})).toBe(false);
+      expect(isRetrySafe('$executeRaw', {})).toBe(false);
+    });
+
+    it('should resolve overrides from most to least specific', () => {
+      const policy = { overrides: { 'session.*': true, 'session.create': false, '*.deleteMany': true } };
+      expect(isRetrySafe('session.update', policy)).toBe(true);
+      expect(isRetrySafe('session.create', policy)).toBe(false);
+      expect(isRetrySafe('post.deleteMany', policy)).toBe(true);
+      expect(isRetrySafe('post.findMany', { overrides: { 'post.findMany': false } })).toBe(false);
+      expect(isRetrySafe('$queryRaw', { overrides: { $queryRaw: true } })).toBe(true);
+    });
+
+    it('should let call options win over the policy', () => {
+      expect(isRetrySafe('user.create', {}, { idempotent: true })).toBe(true);
+      expect(isRetrySafe('user.create', { retryNonIdempotent: true })).toBe(true);
+    });
+  });
+});
+
 describe('Backoff utilities', () => {
   describe('calculateBackoff', () => {
     it('should calculate exponential backoff correctly', () => {
@@ -85,6 +189,89 @@ describe('Backoff utilities', () => {
       expect(calculateBackoff(10, 1000, 5000, 'exponential')).toBe(5000);
       expect(calculateBackoff(10, 1000, 5000, 'linear')).toBe(5000);
     });
+
+    it('should randomize full jitter between 0 and the exponential delay', () => {
+      const random = jest.spyOn(Math, 'random');
+      random.mockReturnValue(0);
+      expect(calculateBackoff(3, 1000, 10000, 'full-jitter')).toBe(0);
+      random.mockReturnValue(0.5);
+      expect(calculateBackoff(3, 1000, 10000, 'full-jitter')).toBe(2000); // 0.5 * 4000
+      expect(calculateBackoff(10, 1000, 5000, 'full-jitter')).toBe(2500); // 0.5 * 5000
+      random.mockRestore();
+    });
+
+    it('should randomize decorrelated jitter between initialDelay and 3x the previous delay', () => {
+      const random = jest.spyOn(Math, 'random');
+      random.mockReturnValue(0);
+      expect(calculateBackoff(2, 100, 10000, 'decorrelated-jitter', 400)).toBe(100);
+      random.mockReturnValue(0.5);
+      expect(calculateBackoff(2, 100, 10000, 'decorrelated-jitter', 400)).toBe(650); // 100 + 0.5 * 1100
+      expect(calculateBackoff(2, 100, 500, 'decorrelated-jitter', 400)).toBe(500);
+      random.mockRestore();
+    });
+  });
+
+  describe('createBackoffPolicy', () => {
+    it('should produce the delay sequence of a built-in strategy', () => {
+      const backoff = createBackoffPolicy('exponential', 100, 1000);
+      expect([backoff.next(), backoff.next(), backoff.next(), backoff.next(), backoff.next()]).toEqual([
+        100, 200, 400, 800, 1000,
+      ]);
+    });
+
+    it('should feed the previous delay into decorrelated jitter', () => {
+      const random = jest.spyOn(Math, 'random').mockReturnValue(1);
+      const backoff = createBackoffPolicy('decorrelated-jitter', 100, 10000);
+      expect([backoff.next(), backoff.next(), backoff.next()]).toEqual([300, 900, 2700]);
+      random.mockRestore();
+    });
+
+    it('should call a custom backoff function and cap its result', () => {
+      const custom = jest.fn((attempt: number, previousDelay: number) => previousDelay + attempt * 1000);
+      const backoff = createBackoffPolicy(custom, 100, 2500);
+
+      expect([backoff.next(), backoff.next(), backoff.next()]).toEqual([1100, 2500, 2500]);
+      expect(custom.mock.calls).toEqual([[1, 100], [2, 1100], [3, 2500]]);
+    });
+  });
+});
+
+describe('Maintenance window utilities', () => {
+  // Wednesday 2025-01-15
+  const at = (time: string) => new Date(`2025-01-15T${time}:00Z`);
+
+  it('should parse HH:MM times', () => {
+    expect(parseTimeOfDay('02:30')).toBe(150);
+    expect(parseTimeOfDay('24:00')).toBe(1440);
+    expect(() => parseTimeOfDay('2am')).toThrow('Invalid maintenance window time');
+    expect(() => parseTimeOfDay('25:00')).toThrow('Invalid maintenance window time');
+  });
+
+  it('should reject invalid windows', () => {
+    expect(() => parseMaintenanceWindows([{ start: '2:0', end: '04:00' }])).toThrow('Invalid maintenance window time');
+    expect(() => parseMaintenanceWindows([{ start: '02:00', end: '04:00', days: [7] }])).toThrow(
+      'Invalid maintenance window day 7'
+    );
+  });
+
+  it('should match times inside a window', () => {
+    const windows = parseMaintenanceWindows([{ start: '02:00', end: '04:00' }]);
+    expect(isWithinMaintenanceWindow(windows, 'utc', at('02:00'))).toBe(true);
+    expect(isWithinMaintenanceWindow(windows, 'utc', at('03:59'))).toBe(true);
+    expect(isWithinMaintenanceWindow(windows, 'utc', at('04:00'))).toBe(false);
+    expect(isWithinMaintenanceWindow(windows, 'utc', at('12:00'))).toBe(false);
+  });
+
+  it('should handle windows spanning midnight on the day they start', () => {
+    const windows = parseMaintenanceWindows([{ start: '23:00', end: '01:00', days: [2] }]); // Tuesday night
+    expect(isWithinMaintenanceWindow(windows, 'utc', at('00:30'))).toBe(true);
+    expect(isWithinMaintenanceWindow(windows, 'utc', at('23:30'))).toBe(false);
+  });
+
+  it('should restrict windows to the given days', () => {
+    const windows = parseMaintenanceWindows([{ start: '02:00', end: '04:00', days: [0, 6] }]);
+    expect(isWithinMaintenanceWindow(windows, 'utc', at('03:00'))).toBe(false);
+    expect(isWithinMaintenanceWindow(windows, 'utc', new Date('2025-01-18T03:00:00Z'))).toBe(true);
   });
 });
 